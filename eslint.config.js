@@ -25,6 +25,7 @@ export default [
         window: "readonly",
         document: "readonly",
         localStorage: "readonly",
+        sessionStorage: "readonly",
         indexedDB: "readonly",
         fetch: "readonly",
         URL: "readonly",
@@ -0,0 +1,434 @@
+import {
+  test as base,
+  type APIRequestContext,
+  type Browser,
+  type BrowserContext,
+  type Fixtures,
+  type Page,
+  type PlaywrightTestArgs,
+  type PlaywrightTestOptions,
+  type PlaywrightWorkerArgs,
+  type PlaywrightWorkerOptions,
+} from "@playwright/test";
+import * as fs from "fs";
+import * as path from "path";
+import { authSetup, createProviderFromConfig } from "./index.js";
+import type { AuthProvider } from "./providers/base.js";
+import { getProviderDefinition } from "./providers/registry.js";
+import {
+  DEFAULT_STORAGE_STATE_FILE,
+  deriveWorkerTestUser,
+  getStorageStateFileName,
+  getTestUserNames,
+  loadConfig,
+  resolveTestUser,
+} from "./utils/config-loader.js";
+import { readStorageState } from "./utils/storage-state.js";
+import type { PlaywrightAuthConfig, StorageState } from "./types.js";
+
+// =============================================================================
+// Fixture Types
+// =============================================================================
+
+export interface AuthFixtureOptions {
+  /**
+   * Path to playwright.env.json (default: "./playwright.env.json" if it
+   * exists, otherwise environment variables)
+   */
+  authConfigPath: string | undefined;
+  /** Directory containing the storage states saved by authSetup (default: "e2e/.auth") */
+  authOutputDir: string;
+  /**
+   * Storage state filename of the default testUser, as passed to authSetup
+   * (default: "user.json")
+   */
+  authStorageStateFile: string;
+  /** Named user from "testUsers" to run as (default: the default "testUser") */
+  authUser: string | undefined;
+  /**
+   * Run each parallel worker as its own user, derived from the default
+   * "testUser" ("e2e+worker0@example.com", uid "<uid>-worker0", ...).
+   * Users are created and signed in on first use, and deleted again when
+   * the worker ends, so provisioning must be enabled ("firebase.provision"
+   * or "supabase.provision"). (default: false)
+   */
+  authPerWorker: boolean;
+  /**
+   * Named users from "testUsers" handed out one per parallel worker,
+   * instead of deriving users. Needs at least as many users as workers.
+   */
+  authWorkerPool: string[] | undefined;
+}
+
+/** Test user of the current worker (`authPerWorker` / `authWorkerPool`) */
+export interface WorkerUser {
+  /** Name of the user: "worker-<parallelIndex>" or the pool entry */
+  userName: string;
+  /** Storage state file of the user, under `authOutputDir` */
+  storageStatePath: string;
+  /** Provider signed in as the user */
+  provider: AuthProvider;
+}
+
+/** Authenticated page, context and API client for a single user */
+export interface UserSession {
+  page: Page;
+  context: BrowserContext;
+  request: APIRequestContext;
+}
+
+export interface AuthFixtures {
+  /** Page authenticated as `authUser` */
+  authedPage: Page;
+  /** Open an additional authenticated session as a named user */
+  asUser: (userName: string) => Promise<UserSession>;
+}
+
+export interface AuthWorkerFixtures {
+  /**
+   * Test user of the current worker, or undefined unless `authPerWorker`
+   * or `authWorkerPool` is set
+   */
+  workerUser: WorkerUser | undefined;
+}
+
+/** Worker-scoped fixture options */
+type AuthWorkerOptions = Pick<
+  AuthFixtureOptions,
+  | "authConfigPath"
+  | "authOutputDir"
+  | "authStorageStateFile"
+  | "authPerWorker"
+  | "authWorkerPool"
+>;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Resolve the storage state file written by authSetup for a user
+ */
+function getStorageStatePath(
+  outputDir: string,
+  userName?: string,
+  storageStateFile?: string
+): string {
+  return path.join(
+    outputDir,
+    getStorageStateFileName(userName, storageStateFile)
+  );
+}
+
+/**
+ * Create the provider of a user from the configuration (see loadConfig())
+ */
+function createProvider(
+  configPath: string | undefined,
+  userName?: string
+): AuthProvider {
+  return createProviderFromConfig(loadConfig(configPath), userName);
+}
+
+/**
+ * Create a provider that reads the session of a storage state. The stored
+ * session only depends on the provider section, so without a user (e.g. a
+ * project's own storageState) any configured user will do, including the
+ * first named user of a configuration without a default "testUser".
+ */
+function createSessionReader(
+  configPath: string | undefined,
+  userName?: string
+): AuthProvider {
+  const config = loadConfig(configPath);
+  if (userName === undefined && !config.testUser) {
+    userName = getTestUserNames(config)[0];
+  }
+  return createProviderFromConfig(config, userName);
+}
+
+/**
+ * Build an Authorization header from the access token in a storage state
+ * (a file path or a parsed state).
+ * Returns no header if the provider finds no stored session.
+ */
+function getAuthHeaders(
+  provider: AuthProvider,
+  storageState: string | StorageState
+): Record<string, string> {
+  const session = provider.readStoredSession(
+    typeof storageState === "string"
+      ? readStorageState(storageState)
+      : storageState
+  );
+
+  return session ? { Authorization: `Bearer ${session.accessToken}` } : {};
+}
+
+// Configuration and pending sign-in of each worker user
+const workerSetups = new WeakMap<
+  WorkerUser,
+  { config: PlaywrightAuthConfig; ready?: Promise<void> }
+>();
+
+/**
+ * Sign in the worker's user once per worker (reusing a still-valid
+ * storage state) and return its storage state path
+ */
+async function ensureWorkerUser(
+  workerUser: WorkerUser,
+  options: { browser: Browser; baseURL?: string; outputDir: string }
+): Promise<string> {
+  const setup = workerSetups.get(workerUser)!;
+  setup.ready ??= authSetup({
+    config: setup.config,
+    user: workerUser.userName,
+    outputDir: options.outputDir,
+    baseURL: options.baseURL,
+    browser: options.browser,
+  });
+
+  await setup.ready;
+  return workerUser.storageStatePath;
+}
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+/**
+ * Fixture definitions behind `test`, exported for unit tests
+ */
+export const authFixtures: Fixtures<
+  Pick<AuthFixtureOptions, "authUser"> & AuthFixtures,
+  AuthWorkerOptions & AuthWorkerFixtures,
+  PlaywrightTestArgs & PlaywrightTestOptions,
+  PlaywrightWorkerArgs & PlaywrightWorkerOptions
+> = {
+  authConfigPath: [undefined, { option: true, scope: "worker" }],
+  authOutputDir: ["e2e/.auth", { option: true, scope: "worker" }],
+  authStorageStateFile: [
+    DEFAULT_STORAGE_STATE_FILE,
+    { option: true, scope: "worker" },
+  ],
+  authUser: [undefined, { option: true }],
+  authPerWorker: [false, { option: true, scope: "worker" }],
+  authWorkerPool: [undefined, { option: true, scope: "worker" }],
+
+  workerUser: [
+    async (
+      { authConfigPath, authOutputDir, authPerWorker, authWorkerPool },
+      use,
+      workerInfo
+    ) => {
+      if (!authPerWorker && !authWorkerPool) {
+        await use(undefined);
+        return;
+      }
+
+      // parallelIndex is reused when a worker restarts after a failure
+      const index = workerInfo.parallelIndex;
+      let config = loadConfig(authConfigPath);
+      let userName: string;
+
+      if (authWorkerPool) {
+        userName = authWorkerPool[index];
+        if (userName === undefined) {
+          throw new Error(
+            `authWorkerPool has ${authWorkerPool.length} user(s), but worker ${index} needs one. ` +
+              `Add users to the pool or reduce the number of workers`
+          );
+        }
+      } else {
+        // Derived users don't exist until the provider creates them
+        if (!getProviderDefinition(config.provider).provisionsUsers?.(config)) {
+          throw new Error(
+            `authPerWorker needs a provider that creates test users, but "${config.provider}" ` +
+              `does not. Enable "firebase.provision" or "supabase.provision", ` +
+              `or list existing users in authWorkerPool`
+          );
+        }
+        userName = `worker-${index}`;
+        config = {
+          ...config,
+          testUsers: {
+            ...config.testUsers,
+            [userName]: deriveWorkerTestUser(resolveTestUser(config), index),
+          },
+        };
+      }
+
+      const workerUser: WorkerUser = {
+        userName,
+        storageStatePath: getStorageStatePath(authOutputDir, userName),
+        provider: createProviderFromConfig(config, userName),
+      };
+      const setup: { config: PlaywrightAuthConfig; ready?: Promise<void> } = {
+        config,
+      };
+      workerSetups.set(workerUser, setup);
+
+      await use(workerUser);
+
+      // Derived users only live as long as the worker; deleting the user
+      // also ends its sessions
+      if (!authWorkerPool && setup.ready) {
+        try {
+          await workerUser.provider.cleanup?.();
+        } finally {
+          fs.rmSync(workerUser.storageStatePath, { force: true });
+        }
+      }
+    },
+    { scope: "worker" },
+  ],
+
+  storageState: async (
+    {
+      storageState,
+      workerUser,
+      browser,
+      baseURL,
+      authOutputDir,
+      authStorageStateFile,
+      authUser,
+    },
+    use
+  ) => {
+    // Opting into per-worker users replaces the project's shared state
+    if (workerUser && authUser === undefined) {
+      await use(
+        await ensureWorkerUser(workerUser, {
+          browser,
+          baseURL,
+          outputDir: authOutputDir,
+        })
+      );
+      return;
+    }
+
+    // A storageState from the config or test.use() (e.g. a logged-out
+    // project) wins unless a test picks a user with authUser
+    if (storageState !== undefined && authUser === undefined) {
+      await use(storageState);
+      return;
+    }
+
+    await use(
+      getStorageStatePath(authOutputDir, authUser, authStorageStateFile)
+    );
+  },
+
+  authedPage: async ({ page }, use) => {
+    await use(page);
+  },
+
+  request: async (
+    {
+      playwright,
+      storageState,
+      baseURL,
+      extraHTTPHeaders,
+      ignoreHTTPSErrors,
+      authConfigPath,
+      authUser,
+      workerUser,
+    },
+    use
+  ) => {
+    // Same session as the page: storageState is resolved above
+    const provider =
+      workerUser && authUser === undefined
+        ? workerUser.provider
+        : createSessionReader(authConfigPath, authUser);
+
+    const request = await playwright.request.newContext({
+      baseURL,
+      ignoreHTTPSErrors,
+      storageState,
+      extraHTTPHeaders: {
+        ...extraHTTPHeaders,
+        ...(storageState && getAuthHeaders(provider, storageState)),
+      },
+    });
+
+    await use(request);
+    await request.dispose();
+  },
+
+  asUser: async (
+    {
+      browser,
+      playwright,
+      contextOptions,
+      baseURL,
+      extraHTTPHeaders,
+      ignoreHTTPSErrors,
+      authConfigPath,
+      authOutputDir,
+    },
+    use
+  ) => {
+    const sessions: UserSession[] = [];
+
+    await use(async (userName: string) => {
+      const storageStatePath = getStorageStatePath(authOutputDir, userName);
+      const authHeaders = getAuthHeaders(
+        createProvider(authConfigPath, userName),
+        storageStatePath
+      );
+
+      const context = await browser.newContext({
+        ...contextOptions,
+        baseURL,
+        ignoreHTTPSErrors,
+        extraHTTPHeaders,
+        storageState: storageStatePath,
+      });
+      const request = await playwright.request.newContext({
+        baseURL,
+        ignoreHTTPSErrors,
+        storageState: storageStatePath,
+        extraHTTPHeaders: { ...extraHTTPHeaders, ...authHeaders },
+      });
+      const page = await context.newPage();
+
+      const session = { page, context, request };
+      sessions.push(session);
+      return session;
+    });
+
+    for (const session of sessions) {
+      await session.request.dispose();
+      await session.context.close();
+    }
+  },
+};
+
+/**
+ * Playwright test with authentication fixtures.
+ *
+ * - `page` / `context` / `authedPage`: authenticated as `authUser` or the
+ *   worker's user, unless the project or test sets its own `storageState`
+ * - `request`: APIRequestContext with the user's bearer token attached
+ * - `asUser(name)`: additional session as another named user
+ *
+ * @example
+ * ```typescript
+ * import { test, expect } from 'playwright-nextjs-auth';
+ *
+ * test.use({ authConfigPath: './playwright.env.json', authOutputDir: 'e2e/.auth' });
+ *
+ * test('admin can see editor changes', async ({ authedPage, asUser }) => {
+ *   const admin = await asUser('admin');
+ *   await admin.page.goto('/admin');
+ *   await authedPage.goto('/dashboard');
+ * });
+ * ```
+ */
+export const test = base.extend<
+  Pick<AuthFixtureOptions, "authUser"> & AuthFixtures,
+  AuthWorkerOptions & AuthWorkerFixtures
+>(authFixtures);
+
+export { expect } from "@playwright/test";
@@ -1,31 +1,136 @@
-import { chromium } from "@playwright/test";
+import {
+  chromium,
+  firefox,
+  webkit,
+  type Browser,
+  type BrowserContext,
+  type BrowserContextOptions,
+} from "@playwright/test";
 import * as fs from "fs";
 import * as path from "path";
-import { FirebaseProvider } from "./providers/firebase.js";
-import { SupabaseProvider } from "./providers/supabase.js";
+import { getProviderDefinition } from "./providers/registry.js";
+import {
+  DEFAULT_MIN_SESSION_VALIDITY,
+  DEFAULT_STORAGE_STATE_FILE,
+  getStorageStateFileName,
+  getTestUserNames,
+  loadConfig,
+  loadConfigFile,
+  resolveConfigPath,
+  testUserPath,
+} from "./utils/config-loader.js";
+import { validateConfig } from "./utils/config-validator.js";
+import { loadConfigFromEnv } from "./utils/env-config.js";
+import { readStorageState } from "./utils/storage-state.js";
 import type { AuthProvider } from "./providers/base.js";
-import type { AuthSetupOptions, PlaywrightAuthConfig } from "./types.js";
+import type {
+  AuthSetupOptions,
+  AuthTeardownOptions,
+  PlaywrightAuthConfig,
+  RefreshStorageStateOptions,
+} from "./types.js";
 
 // Re-export types for library consumers
 export type {
   AuthSetupOptions,
+  AuthTeardownOptions,
+  RefreshStorageStateOptions,
   PlaywrightAuthConfig,
   ProviderType,
   TestUser,
+  TestUserMfa,
   FirebaseConfig,
+  FirebaseEmulatorConfig,
+  FirebaseSdkConfig,
+  FirebaseSessionCookieConfig,
   SupabaseConfig,
+  Auth0Config,
+  Auth0NextjsConfig,
   NextAuthConfig,
+  StorageState,
+  StoredSession,
 } from "./types.js";
 
 export type { AuthProvider } from "./providers/base.js";
+export { BaseAuthProvider } from "./providers/base.js";
+export type { ProviderDefinition } from "./providers/registry.js";
+export {
+  registerProvider,
+  getRegisteredProviders,
+} from "./providers/registry.js";
+export {
+  buildStorageState,
+  findIndexedDBValues,
+  findLocalStorageItem,
+  readStorageState,
+  setLocalStorageItem,
+} from "./utils/storage-state.js";
+export type { ConfigIssue, JsonSchema } from "./utils/config-validator.js";
+export {
+  ConfigValidationError,
+  validateConfig,
+} from "./utils/config-validator.js";
+export { configSchema } from "./schema.js";
 export { FirebaseProvider } from "./providers/firebase.js";
 export { SupabaseProvider } from "./providers/supabase.js";
+export { Auth0Provider } from "./providers/auth0.js";
+export { NextAuthProvider } from "./providers/nextauth.js";
+
+// Playwright fixtures
+export { test, expect } from "./fixtures.js";
+export type {
+  AuthFixtureOptions,
+  AuthFixtures,
+  AuthWorkerFixtures,
+  UserSession,
+  WorkerUser,
+} from "./fixtures.js";
+
+/**
+ * Create an authentication provider from a configuration object.
+ * The provider type is looked up among the built-in and registered
+ * providers (see registerProvider()).
+ *
+ * The configuration is validated against the JSON Schema and the provider's
+ * own rules, and every problem is reported at once in a ConfigValidationError.
+ *
+ * @param config - Configuration object (same shape as playwright.env.json)
+ * @param userName - Named user from "testUsers" (default: "testUser")
+ *
+ * @example
+ * ```typescript
+ * import { createProviderFromConfig } from 'playwright-nextjs-auth';
+ *
+ * const provider = createProviderFromConfig({
+ *   provider: 'supabase',
+ *   testUser: { email: 'test@example.com', password: process.env.TEST_PASSWORD },
+ *   supabase: { url: process.env.SUPABASE_URL!, anonKey: process.env.SUPABASE_ANON_KEY! },
+ * });
+ * ```
+ */
+export function createProviderFromConfig(
+  config: PlaywrightAuthConfig,
+  userName?: string
+): AuthProvider {
+  if (!config.provider) {
+    throw new Error('Configuration must specify "provider" field');
+  }
+
+  const definition = getProviderDefinition(config.provider);
+  validateConfig(config, definition.validate?.(config, userName));
+
+  return definition.create(config, userName);
+}
 
 /**
  * Create an authentication provider from a configuration file.
  *
  * This function reads the config file, determines the provider type,
- * and returns the appropriate provider instance.
+ * and returns the appropriate provider instance. `${VAR}` placeholders
+ * in the file are replaced with environment variables.
+ *
+ * @param configPath - Path to playwright.env.json
+ * @param userName - Named user from "testUsers" (default: "testUser")
  *
  * @example
  * ```typescript
@@ -33,57 +138,177 @@ export { SupabaseProvider } from "./providers/supabase.js";
  *
  * const provider = createProviderFromConfigFile('./playwright.env.json');
  * await provider.signIn(page);
+ *
+ * const admin = createProviderFromConfigFile('./playwright.env.json', 'admin');
+ * await admin.signIn(adminPage);
  * ```
  */
-export function createProviderFromConfigFile(configPath: string): AuthProvider {
-  const absolutePath = path.isAbsolute(configPath)
-    ? configPath
-    : path.resolve(process.cwd(), configPath);
+export function createProviderFromConfigFile(
+  configPath: string,
+  userName?: string
+): AuthProvider {
+  return createProviderFromConfig(loadConfigFile(configPath), userName);
+}
 
-  if (!fs.existsSync(absolutePath)) {
-    throw new Error(
-      `Configuration file not found: ${absolutePath}\n` +
-        `Please create the file from playwright.env.json.sample`
-    );
+/**
+ * Create an authentication provider from environment variables.
+ *
+ * See the README for the list of variables (SUPABASE_URL, SERVICE_ACCOUNT,
+ * TEST_EMAIL, ...). The provider type is read from PLAYWRIGHT_AUTH_PROVIDER,
+ * or inferred from the variables present.
+ *
+ * @param userName - Named user from TEST_USERS (default: TEST_* user)
+ *
+ * @example
+ * ```typescript
+ * import { createProviderFromEnv } from 'playwright-nextjs-auth';
+ *
+ * const provider = createProviderFromEnv();
+ * await provider.signIn(page);
+ * ```
+ */
+export function createProviderFromEnv(userName?: string): AuthProvider {
+  return createProviderFromConfig(loadConfigFromEnv(), userName);
+}
+
+/**
+ * Ensure output directory exists
+ */
+export function ensureOutputDir(outputDir: string): void {
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
   }
+}
 
-  const content = fs.readFileSync(absolutePath, "utf-8");
-  let rawConfig: PlaywrightAuthConfig;
+/**
+ * Check whether a saved storage state holds a session that stays valid
+ * for at least `minValiditySeconds`.
+ */
+function canReuseStorageState(
+  provider: AuthProvider,
+  storageStatePath: string,
+  minValiditySeconds: number
+): boolean {
+  if (!fs.existsSync(storageStatePath)) {
+    return false;
+  }
 
   try {
-    rawConfig = JSON.parse(content);
-  } catch {
-    throw new Error(
-      `Failed to parse configuration file: ${absolutePath}\n` +
-        `Please ensure the file contains valid JSON`
+    const session = provider.readStoredSession(
+      readStorageState(storageStatePath)
     );
+    if (session?.expiresAt === undefined) {
+      return false;
+    }
+    return session.expiresAt - Date.now() > minValiditySeconds * 1000;
+  } catch {
+    return false;
   }
+}
 
-  if (!rawConfig.provider) {
-    throw new Error('Configuration must specify "provider" field');
-  }
+/**
+ * Refresh the session in a saved storage state and rewrite the file.
+ *
+ * Exchanges the stored refresh token for new tokens
+ * (Supabase: grant_type=refresh_token, Firebase: Secure Token API),
+ * so long-running suites can outlive the one-hour access token lifetime.
+ *
+ * @example
+ * ```typescript
+ * import { refreshStorageState } from 'playwright-nextjs-auth';
+ *
+ * await refreshStorageState('e2e/.auth/user.json');
+ * await refreshStorageState('e2e/.auth/admin.json', { user: 'admin' });
+ * ```
+ */
+export async function refreshStorageState(
+  storageStatePath: string,
+  options: RefreshStorageStateOptions = {}
+): Promise<void> {
+  const { configPath, user } = options;
 
-  switch (rawConfig.provider) {
-    case "firebase":
-      return FirebaseProvider.fromConfigFile(configPath);
+  const provider = createProviderFromConfig(loadConfig(configPath), user);
+  await refreshWithProvider(provider, storageStatePath);
+}
 
-    case "supabase":
-      return SupabaseProvider.fromConfigFile(configPath);
+/**
+ * Refresh a saved storage state in place using the given provider
+ */
+async function refreshWithProvider(
+  provider: AuthProvider,
+  storageStatePath: string
+): Promise<void> {
+  const state = readStorageState(storageStatePath);
+  const refreshed = await provider.refreshStoredSession(state);
 
-    default:
-      throw new Error(
-        `Unknown provider: ${rawConfig.provider}. Supported: firebase, supabase`
-      );
+  fs.writeFileSync(storageStatePath, JSON.stringify(refreshed, null, 2));
+  console.log(`[AuthSetup] Storage state refreshed: ${storageStatePath}`);
+}
+
+// Browser types selectable with AuthSetupOptions.browserName
+const BROWSER_TYPES = { chromium, firefox, webkit };
+
+/**
+ * Sign in a single test user in a fresh browser context and save its
+ * storage state.
+ */
+async function setupUser(
+  browser: Browser,
+  provider: AuthProvider,
+  contextOptions: BrowserContextOptions,
+  storageStatePath: string
+): Promise<void> {
+  const context = await browser.newContext(contextOptions);
+  const page = await context.newPage();
+
+  try {
+    await provider.signIn(page);
+    await saveStorageState(context, storageStatePath);
+  } finally {
+    await context.close();
   }
 }
 
 /**
- * Ensure output directory exists
+ * Save a signed-in context's storage state
  */
-export function ensureOutputDir(outputDir: string): void {
-  if (!fs.existsSync(outputDir)) {
-    fs.mkdirSync(outputDir, { recursive: true });
+async function saveStorageState(
+  context: BrowserContext,
+  storageStatePath: string
+): Promise<void> {
+  // Save storage state (including IndexedDB for Firebase)
+  console.log(`[AuthSetup] Saving storage state to: ${storageStatePath}`);
+  await context.storageState({
+    path: storageStatePath,
+    indexedDB: true, // Required for Firebase
+  });
+}
+
+/**
+ * Build a single test user's storage state from the provider's session
+ * data and save it, without a browser.
+ */
+async function setupUserBrowserless(
+  provider: AuthProvider,
+  userName: string | undefined,
+  baseURL: string | undefined,
+  storageStatePath: string
+): Promise<void> {
+  const userPath = testUserPath(userName);
+  if (!provider.createStorageState) {
+    throw new Error(
+      `Browserless setup is not supported by the provider of ${userPath}`
+    );
+  }
+  if (!baseURL) {
+    throw new Error('Browserless setup requires "baseURL"');
   }
+
+  console.log(`[AuthSetup] Creating storage state for ${userPath}...`);
+  const state = await provider.createStorageState(baseURL);
+
+  console.log(`[AuthSetup] Saving storage state to: ${storageStatePath}`);
+  fs.writeFileSync(storageStatePath, JSON.stringify(state, null, 2));
 }
 
 /**
@@ -91,10 +316,24 @@ export function ensureOutputDir(outputDir: string): void {
  *
  * This function:
  * 1. Loads configuration from the specified JSON file
- * 2. Launches a browser and creates a new page
+ * 2. Launches a browser (or uses the given `browser` or setup-project
+ *    `page`) and creates a new page per test user
  * 3. Executes authentication via the appropriate provider
  * 4. Saves the authentication state (cookies, localStorage, IndexedDB)
  *
+ * The default `testUser` is saved to `storageStateFile`, and each entry of
+ * `testUsers` is saved to `<role>.json`. Pass `user` to set up only one
+ * named user.
+ *
+ * Users whose saved storage state still holds a session valid for at least
+ * `minSessionValidity` seconds are not signed in again. With
+ * `refreshSessions`, expiring sessions are refreshed before falling back
+ * to a full sign-in.
+ *
+ * With `browserless`, token-only providers (Supabase, Auth0) build the
+ * storage state from their session data instead, so neither a browser nor
+ * a running app is needed.
+ *
  * @example
  * ```typescript
  * // In global-setup.ts or auth.setup.ts
@@ -114,43 +353,236 @@ export async function authSetup(options: AuthSetupOptions): Promise<void> {
     configPath,
     outputDir = "e2e/.auth",
     baseURL,
-    storageStateFile = "user.json",
+    storageStateFile = DEFAULT_STORAGE_STATE_FILE,
+    user,
+    reuseStorageState = true,
+    minSessionValidity = DEFAULT_MIN_SESSION_VALIDITY,
+    refreshSessions = false,
+    browserless = false,
+    browserName = "chromium",
+    launchOptions,
+    contextOptions,
+    browser,
+    page,
   } = options;
 
-  // 1. Create provider from config
-  console.log(`[AuthSetup] Loading configuration from: ${configPath}`);
-  const provider = createProviderFromConfigFile(configPath);
-  console.log(`[AuthSetup] Provider created`);
+  // 1. Create providers from config
+  if (!options.config) {
+    console.log(
+      `[AuthSetup] Loading configuration from: ${resolveConfigPath(configPath) ?? "environment variables"}`
+    );
+  }
+  const config = options.config ?? loadConfig(configPath);
+  const userNames = user !== undefined ? [user] : getTestUserNames(config);
+  if (userNames.length === 0) {
+    throw new Error(
+      'Configuration must specify "testUser" or "testUsers" field'
+    );
+  }
+
+  const targets = userNames.map((userName) => ({
+    userName,
+    provider: createProviderFromConfig(config, userName),
+    storageStatePath: path.join(
+      outputDir,
+      getStorageStateFileName(userName, storageStateFile)
+    ),
+  }));
+  console.log(`[AuthSetup] ${targets.length} provider(s) created`);
+
+  // A custom storageStateFile can still collide with "<role>.json"
+  const defaultTarget = targets.find(({ userName }) => userName === undefined);
+  const collision = targets.find(
+    (target) =>
+      target !== defaultTarget &&
+      target.storageStatePath === defaultTarget?.storageStatePath
+  );
+  if (collision) {
+    throw new Error(
+      `${testUserPath(collision.userName)} and testUser would both be saved to ${collision.storageStatePath}; ` +
+        `rename the user or change "storageStateFile"`
+    );
+  }
+
+  if (page && targets.length > 1) {
+    throw new Error(
+      'authSetup with "page" supports a single test user; pass "user" to choose one'
+    );
+  }
+
+  // 2. Skip users whose saved session is still valid (or can be refreshed)
+  const pending: typeof targets = [];
+  for (const target of targets) {
+    const { userName, provider, storageStatePath } = target;
+    const userPath = testUserPath(userName);
+
+    if (
+      reuseStorageState &&
+      canReuseStorageState(provider, storageStatePath, minSessionValidity)
+    ) {
+      console.log(
+        `[AuthSetup] Reusing valid storage state for ${userPath}: ${storageStatePath}`
+      );
+      continue;
+    }
 
-  // 2. Ensure output directory exists
+    if (refreshSessions && fs.existsSync(storageStatePath)) {
+      try {
+        await refreshWithProvider(provider, storageStatePath);
+        continue;
+      } catch (error) {
+        console.warn(
+          `[AuthSetup] Refresh failed for ${userPath}, signing in again:`,
+          error
+        );
+      }
+    }
+
+    pending.push(target);
+  }
+
+  if (pending.length === 0) {
+    console.log("[AuthSetup] All storage states are valid, skipping sign-in");
+    return;
+  }
+
+  // 3. Ensure output directory exists
   ensureOutputDir(outputDir);
-  const storageStatePath = path.join(outputDir, storageStateFile);
 
-  // 3. Launch browser
-  console.log("[AuthSetup] Launching browser...");
-  const browser = await chromium.launch();
-  const context = await browser.newContext({
-    baseURL,
-    ignoreHTTPSErrors: true,
-  });
-  const page = await context.newPage();
+  // 4. Write storage states from session data, without a browser
+  if (browserless) {
+    for (const { userName, provider, storageStatePath } of pending) {
+      await setupUserBrowserless(provider, userName, baseURL, storageStatePath);
+    }
 
-  try {
-    console.log("[AuthSetup] Starting authentication...");
+    console.log("[AuthSetup] Authentication setup complete!");
+    return;
+  }
+
+  // 5. Sign in with the setup project's page
+  if (page) {
+    const { userName, provider, storageStatePath } = pending[0];
+    console.log(
+      `[AuthSetup] Starting authentication for ${testUserPath(userName)}...`
+    );
     await provider.signIn(page);
+    await saveStorageState(page.context(), storageStatePath);
+
+    console.log("[AuthSetup] Authentication setup complete!");
+    return;
+  }
+
+  // 6. Launch browser (unless one is given)
+  let browserInstance = browser;
+  if (!browserInstance) {
+    console.log(`[AuthSetup] Launching ${browserName}...`);
+    browserInstance = await BROWSER_TYPES[browserName].launch(launchOptions);
+  }
 
-    // 4. Save storage state (including IndexedDB for Firebase)
-    console.log(`[AuthSetup] Saving storage state to: ${storageStatePath}`);
-    await context.storageState({
-      path: storageStatePath,
-      indexedDB: true, // Required for Firebase
-    });
+  try {
+    for (const { userName, provider, storageStatePath } of pending) {
+      console.log(
+        `[AuthSetup] Starting authentication for ${testUserPath(userName)}...`
+      );
+      await setupUser(
+        browserInstance,
+        provider,
+        { baseURL, ignoreHTTPSErrors: true, ...contextOptions },
+        storageStatePath
+      );
+    }
 
     console.log("[AuthSetup] Authentication setup complete!");
   } catch (error) {
     console.error("[AuthSetup] Authentication failed:", error);
     throw error;
   } finally {
-    await browser.close();
+    if (!browser) {
+      await browserInstance.close();
+    }
+  }
+}
+
+/**
+ * Clean up after authSetup:
+ * 1. With `revokeSessions`, revoke the sessions in the storage states
+ *    authSetup saved, and delete the files, so their refresh tokens cannot
+ *    be reused (Firebase, Supabase)
+ * 2. Delete the test users that providers created by provisioning (e.g.
+ *    Firebase with `provision`), along with their storage states, so the
+ *    next authSetup signs in again. Other users are left untouched.
+ *
+ * Every user is cleaned up even if another one fails.
+ *
+ * @throws Error listing the users whose cleanup failed
+ *
+ * @example
+ * ```typescript
+ * // In global-teardown.ts
+ * import { authTeardown } from 'playwright-nextjs-auth';
+ *
+ * export default async function globalTeardown() {
+ *   await authTeardown({ configPath: './playwright.env.json' });
+ * }
+ * ```
+ */
+export async function authTeardown(
+  options: AuthTeardownOptions = {}
+): Promise<void> {
+  const {
+    configPath,
+    user,
+    outputDir = "e2e/.auth",
+    storageStateFile = DEFAULT_STORAGE_STATE_FILE,
+    revokeSessions = false,
+  } = options;
+
+  const config = loadConfig(configPath);
+  const userNames = user !== undefined ? [user] : getTestUserNames(config);
+  const failures: string[] = [];
+
+  // Run a cleanup step, recording its failure instead of stopping
+  const attempt = async (userPath: string, step: () => Promise<void>) => {
+    try {
+      await step();
+    } catch (error) {
+      console.error(`[AuthTeardown] Cleanup of ${userPath} failed:`, error);
+      failures.push(
+        `${userPath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  };
+
+  for (const userName of userNames) {
+    const provider = createProviderFromConfig(config, userName);
+    const userPath = testUserPath(userName);
+    const storageStatePath = path.join(
+      outputDir,
+      getStorageStateFileName(userName, storageStateFile)
+    );
+
+    if (revokeSessions && provider.revoke && fs.existsSync(storageStatePath)) {
+      await attempt(userPath, async () => {
+        console.log(`[AuthTeardown] Revoking session of ${userPath}...`);
+        await provider.revoke!(readStorageState(storageStatePath));
+        fs.rmSync(storageStatePath);
+      });
+    }
+
+    if (provider.cleanup) {
+      await attempt(userPath, async () => {
+        console.log(`[AuthTeardown] Cleaning up ${userPath}...`);
+        // A saved session of a deleted user must not be reused by authSetup
+        if ((await provider.cleanup!()) === true) {
+          fs.rmSync(storageStatePath, { force: true });
+        }
+      });
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(
+      `authTeardown failed for ${failures.length} user(s):\n${failures.join("\n")}`
+    );
   }
 }
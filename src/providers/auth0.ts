@@ -0,0 +1,819 @@
+import type { Page } from "@playwright/test";
+import {
+  createCipheriv,
+  createDecipheriv,
+  hkdfSync,
+  randomBytes,
+} from "crypto";
+import { BaseAuthProvider } from "./base.js";
+import type { ProviderDefinition } from "./registry.js";
+import {
+  loadConfigFile,
+  resolveTestUser,
+  testUserPath,
+} from "../utils/config-loader.js";
+import { validateConfig, type ConfigIssue } from "../utils/config-validator.js";
+import {
+  buildStorageState,
+  findLocalStorageItem,
+  setLocalStorageItem,
+} from "../utils/storage-state.js";
+import type {
+  Auth0Config,
+  TestUser,
+  PlaywrightAuthConfig,
+  StorageState,
+  StoredSession,
+} from "../types.js";
+
+const PASSWORD_REALM_GRANT = "http://auth0.com/oauth/grant-type/password-realm";
+const DEFAULT_REALM = "Username-Password-Authentication";
+const DEFAULT_SCOPE = "openid profile email offline_access";
+
+// auth0-spa-js localStorage cache
+const SPA_CACHE_PREFIX = "@@auth0spajs@@";
+const SPA_DEFAULT_AUDIENCE = "default";
+const SPA_USER_CACHE_KEY = "@@user@@";
+
+// Claims that describe the ID token itself rather than the user
+// (removed from `user` by auth0-spa-js and @auth0/nextjs-auth0)
+const ID_TOKEN_CLAIMS = [
+  "iss",
+  "aud",
+  "exp",
+  "nbf",
+  "iat",
+  "jti",
+  "azp",
+  "nonce",
+  "auth_time",
+  "at_hash",
+  "c_hash",
+  "acr",
+  "amr",
+  "sub_jwk",
+  "cnf",
+  "sip_hash",
+  "s_hash",
+  "sid",
+];
+
+// @auth0/nextjs-auth0 session cookie
+const NEXTJS_COOKIES = {
+  3: { name: "appSession", chunkSeparator: "." },
+  4: { name: "__session", chunkSeparator: "__" },
+} as const;
+const NEXTJS_DEFAULT_VERSION = 4;
+const NEXTJS_MAX_CHUNK_SIZE = 3500;
+const NEXTJS_SESSION_DURATION_SECONDS = 24 * 60 * 60;
+
+interface Auth0Session {
+  accessToken: string;
+  idToken?: string;
+  refreshToken?: string;
+  scope: string;
+  /** Access token expiry (seconds since epoch) */
+  expiresAt: number;
+  expiresIn: number;
+  tokenType: string;
+}
+
+/** Session payload written by @auth0/nextjs-auth0 v3 */
+interface NextjsV3Session {
+  user: Record<string, unknown>;
+  idToken?: string;
+  accessToken: string;
+  accessTokenScope: string;
+  accessTokenExpiresAt: number;
+  refreshToken?: string;
+}
+
+/** Session payload written by @auth0/nextjs-auth0 v4 */
+interface NextjsV4Session {
+  user: Record<string, unknown>;
+  tokenSet: {
+    accessToken: string;
+    idToken?: string;
+    refreshToken?: string;
+    scope: string;
+    expiresAt: number;
+  };
+  internal: { sid: string; createdAt: number };
+}
+
+/**
+ * Derive the cookie encryption key from AUTH0_SECRET, as @auth0/nextjs-auth0
+ * does (HKDF-SHA256, info "JWE CEK")
+ */
+function deriveEncryptionKey(secret: string): Buffer {
+  return Buffer.from(hkdfSync("sha256", secret, "", "JWE CEK", 32));
+}
+
+/**
+ * Encrypt a payload as a compact JWE (alg "dir", enc "A256GCM"),
+ * the format of the @auth0/nextjs-auth0 session cookie.
+ */
+export function encryptSessionCookie(
+  payload: object,
+  secret: string,
+  header: Record<string, unknown> = {}
+): string {
+  const protectedHeader = Buffer.from(
+    JSON.stringify({ alg: "dir", enc: "A256GCM", ...header })
+  ).toString("base64url");
+  const iv = randomBytes(12);
+
+  const cipher = createCipheriv("aes-256-gcm", deriveEncryptionKey(secret), iv);
+  cipher.setAAD(Buffer.from(protectedHeader, "ascii"));
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(payload), "utf-8"),
+    cipher.final(),
+  ]);
+
+  return [
+    protectedHeader,
+    "",
+    iv.toString("base64url"),
+    ciphertext.toString("base64url"),
+    cipher.getAuthTag().toString("base64url"),
+  ].join(".");
+}
+
+/**
+ * Decrypt an @auth0/nextjs-auth0 session cookie.
+ * Returns undefined if the value is not a JWE encrypted with the secret.
+ */
+export function decryptSessionCookie<T>(
+  value: string,
+  secret: string
+): T | undefined {
+  const [protectedHeader, , iv, ciphertext, tag] = value.split(".");
+  if (!protectedHeader || !iv || !ciphertext || !tag) {
+    return undefined;
+  }
+
+  try {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      deriveEncryptionKey(secret),
+      Buffer.from(iv, "base64url")
+    );
+    decipher.setAAD(Buffer.from(protectedHeader, "ascii"));
+    decipher.setAuthTag(Buffer.from(tag, "base64url"));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64url")),
+      decipher.final(),
+    ]);
+    return JSON.parse(plaintext.toString("utf-8")) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decode the payload of a JWT without verifying it
+ */
+function decodeJwtPayload(token: string): Record<string, unknown> {
+  const payload = token.split(".")[1];
+  if (!payload) {
+    throw new Error("Auth0 returned a malformed ID token");
+  }
+  return JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+}
+
+/**
+ * Get the user profile from ID token claims
+ */
+function getUserClaims(
+  claims: Record<string, unknown>
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(claims).filter(([key]) => !ID_TOKEN_CLAIMS.includes(key))
+  );
+}
+
+/**
+ * Auth0 Authentication Provider using API strategy.
+ *
+ * This provider:
+ * 1. Gets tokens with the password-realm grant (Node.js side)
+ * 2. Injects them where the app's SDK looks for a session:
+ *    - "spa": the auth0-spa-js localStorage cache (`@@auth0spajs@@::...`)
+ *      used by @auth0/auth0-react with `cacheLocation: "localstorage"`
+ *    - "nextjs": the encrypted @auth0/nextjs-auth0 session cookie
+ *
+ * The password-realm grant must be enabled for the application
+ * (Advanced Settings > Grant Types > Password).
+ */
+export class Auth0Provider extends BaseAuthProvider {
+  /** Registry entry for the "auth0" provider type */
+  static readonly definition: ProviderDefinition = {
+    validate: (config, userName) => Auth0Provider.validate(config, userName),
+    create: (config, userName) =>
+      new Auth0Provider(config.auth0!, resolveTestUser(config, userName)),
+  };
+
+  protected readonly name = "Auth0";
+  private config: Auth0Config;
+  private testUser: TestUser;
+
+  private constructor(config: Auth0Config, testUser: TestUser) {
+    super();
+    this.config = config;
+    this.testUser = testUser;
+  }
+
+  /**
+   * Create an Auth0Provider from a configuration file.
+   * Loads, validates, and returns a ready-to-use provider.
+   *
+   * @param configPath - Path to playwright.env.json
+   * @param userName - Named user from "testUsers" (default: "testUser")
+   */
+  static fromConfigFile(configPath: string, userName?: string): Auth0Provider {
+    return Auth0Provider.fromConfig(loadConfigFile(configPath), userName);
+  }
+
+  /**
+   * Create an Auth0Provider from an in-memory configuration object.
+   * Validates and returns a ready-to-use provider.
+   *
+   * @param config - Parsed configuration
+   * @param userName - Named user from "testUsers" (default: "testUser")
+   */
+  static fromConfig(
+    config: PlaywrightAuthConfig,
+    userName?: string
+  ): Auth0Provider {
+    // Validate provider type
+    if (config.provider !== "auth0") {
+      throw new Error(
+        `Invalid provider: expected "auth0", got "${config.provider}"`
+      );
+    }
+
+    // Validate the whole config, including Auth0-specific rules
+    validateConfig(config, Auth0Provider.validate(config, userName));
+
+    return Auth0Provider.definition.create(config, userName) as Auth0Provider;
+  }
+
+  /**
+   * Collect Auth0-specific configuration problems
+   */
+  private static validate(
+    config: PlaywrightAuthConfig,
+    userName?: string
+  ): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+    const userPath = testUserPath(userName);
+
+    try {
+      const testUser = resolveTestUser(config, userName);
+      if (!testUser.email || !testUser.password) {
+        issues.push({
+          path: `$.${userPath}`,
+          message: `Auth0 authentication requires "${userPath}.email" and "${userPath}.password"`,
+        });
+      }
+    } catch (error) {
+      issues.push({ path: `$.${userPath}`, message: (error as Error).message });
+    }
+
+    if (!config.auth0) {
+      issues.push({
+        path: "$.auth0",
+        message: 'Auth0 provider requires "auth0" configuration',
+      });
+      return issues;
+    }
+
+    if (config.auth0.sdk === "nextjs" && !config.auth0.nextjs) {
+      issues.push({
+        path: "$.auth0.nextjs",
+        message: 'Auth0 configuration requires "nextjs" when sdk is "nextjs"',
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Get the tenant base URL. Full URLs (e.g. a local mock server) are
+   * used as-is, bare domains are served over HTTPS.
+   */
+  private getBaseUrl(): string {
+    const domain = this.config.domain.replace(/\/+$/, "");
+    return /^https?:\/\//.test(domain) ? domain : `https://${domain}`;
+  }
+
+  private getScope(): string {
+    return this.config.scope ?? DEFAULT_SCOPE;
+  }
+
+  /**
+   * Request tokens from the /oauth/token endpoint
+   */
+  private async requestToken(
+    body: Record<string, string>,
+    errorMessage: string
+  ): Promise<Auth0Session> {
+    const response = await fetch(`${this.getBaseUrl()}/oauth/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        client_id: this.config.clientId,
+        ...(this.config.clientSecret && {
+          client_secret: this.config.clientSecret,
+        }),
+        ...body,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`${errorMessage}: ${response.status} - ${error}`);
+    }
+
+    const data = (await response.json()) as {
+      access_token: string;
+      id_token?: string;
+      refresh_token?: string;
+      scope?: string;
+      expires_in: number;
+      token_type?: string;
+    };
+
+    return {
+      accessToken: data.access_token,
+      idToken: data.id_token,
+      refreshToken: data.refresh_token,
+      scope: data.scope ?? this.getScope(),
+      expiresIn: data.expires_in,
+      expiresAt: Math.floor(Date.now() / 1000) + data.expires_in,
+      tokenType: data.token_type ?? "Bearer",
+    };
+  }
+
+  /**
+   * Authenticate with the password-realm grant
+   */
+  private async authenticateViaAPI(): Promise<Auth0Session> {
+    return this.requestToken(
+      {
+        grant_type: PASSWORD_REALM_GRANT,
+        username: this.testUser.email!,
+        password: this.testUser.password!,
+        realm: this.config.realm ?? DEFAULT_REALM,
+        scope: this.getScope(),
+        ...(this.config.audience && { audience: this.config.audience }),
+      },
+      "Auth0 authentication failed"
+    );
+  }
+
+  // ===========================================================================
+  // SPA (auth0-spa-js localStorage cache)
+  // ===========================================================================
+
+  /**
+   * Cache key of the token entry. auth0-spa-js looks up entries whose scope
+   * includes every scope the app requests, so `scope` must cover them.
+   */
+  private getSpaTokenKey(): string {
+    const audience = this.config.audience ?? SPA_DEFAULT_AUDIENCE;
+    return `${SPA_CACHE_PREFIX}::${this.config.clientId}::${audience}::${this.getScope()}`;
+  }
+
+  private getSpaUserKey(): string {
+    return `${SPA_CACHE_PREFIX}::${this.config.clientId}::${SPA_USER_CACHE_KEY}`;
+  }
+
+  /**
+   * Build the auth0-spa-js cache entries for a session
+   */
+  private buildSpaCacheEntries(
+    session: Auth0Session
+  ): Array<{ name: string; value: string }> {
+    const entries = [
+      {
+        name: this.getSpaTokenKey(),
+        value: JSON.stringify({
+          body: {
+            client_id: this.config.clientId,
+            audience: this.config.audience ?? SPA_DEFAULT_AUDIENCE,
+            scope: this.getScope(),
+            oauthTokenScope: session.scope,
+            access_token: session.accessToken,
+            id_token: session.idToken,
+            refresh_token: session.refreshToken,
+            expires_in: session.expiresIn,
+            token_type: session.tokenType,
+          },
+          expiresAt: session.expiresAt,
+        }),
+      },
+    ];
+
+    if (session.idToken) {
+      const [header, payload, signature] = session.idToken.split(".");
+      const claims = decodeJwtPayload(session.idToken);
+      entries.push({
+        name: this.getSpaUserKey(),
+        value: JSON.stringify({
+          id_token: session.idToken,
+          decodedToken: {
+            encoded: { header, payload, signature },
+            header: JSON.parse(Buffer.from(header, "base64url").toString()),
+            claims: { __raw: session.idToken, ...claims },
+            user: getUserClaims(claims),
+          },
+        }),
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * The cookie auth0-spa-js checks before reading its cache on load
+   */
+  private buildSpaAuthenticatedCookie(session: Auth0Session): {
+    name: string;
+    value: string;
+    expires: number;
+  } {
+    return {
+      name: `auth0.${this.config.clientId}.is.authenticated`,
+      value: "true",
+      expires: session.expiresAt,
+    };
+  }
+
+  /**
+   * Inject the auth0-spa-js cache into localStorage, plus the
+   * "is authenticated" cookie that makes the SDK check its cache on load
+   */
+  private async injectSpaCache(
+    page: Page,
+    session: Auth0Session
+  ): Promise<void> {
+    const entries = this.buildSpaCacheEntries(session);
+
+    await page.evaluate((items) => {
+      for (const { name, value } of items) {
+        localStorage.setItem(name, value);
+      }
+    }, entries);
+
+    const { hostname, protocol } = new URL(page.url());
+    await page.context().addCookies([
+      {
+        ...this.buildSpaAuthenticatedCookie(session),
+        domain: hostname,
+        path: "/",
+        secure: protocol === "https:",
+        sameSite: "Lax",
+      },
+    ]);
+
+    console.log(
+      "[Auth0] Session injected into localStorage:",
+      entries.map((entry) => entry.name).join(", ")
+    );
+  }
+
+  // ===========================================================================
+  // Next.js SDK (@auth0/nextjs-auth0 session cookie)
+  // ===========================================================================
+
+  private getNextjsVersion(): 3 | 4 {
+    return this.config.nextjs?.version ?? NEXTJS_DEFAULT_VERSION;
+  }
+
+  private getNextjsCookieName(): string {
+    return (
+      this.config.nextjs?.cookieName ??
+      NEXTJS_COOKIES[this.getNextjsVersion()].name
+    );
+  }
+
+  /**
+   * Check whether a cookie belongs to the session (whole or chunked)
+   */
+  private isNextjsSessionCookie(name: string): boolean {
+    const cookieName = this.getNextjsCookieName();
+    const separator = NEXTJS_COOKIES[this.getNextjsVersion()].chunkSeparator;
+    return (
+      name === cookieName ||
+      (name.startsWith(`${cookieName}${separator}`) &&
+        /^\d+$/.test(name.slice(cookieName.length + separator.length)))
+    );
+  }
+
+  /**
+   * Encrypt a session the way @auth0/nextjs-auth0 writes its cookie,
+   * split into chunks when it exceeds the maximum cookie size
+   */
+  private buildNextjsCookies(
+    session: Auth0Session
+  ): Array<{ name: string; value: string; expires: number }> {
+    const secret = this.config.nextjs!.secret;
+    const version = this.getNextjsVersion();
+    const user = session.idToken
+      ? getUserClaims(decodeJwtPayload(session.idToken))
+      : { email: this.testUser.email };
+    const iat = Math.floor(Date.now() / 1000);
+    const exp = iat + NEXTJS_SESSION_DURATION_SECONDS;
+
+    let value: string;
+    if (version === 3) {
+      const payload: NextjsV3Session = {
+        user,
+        idToken: session.idToken,
+        accessToken: session.accessToken,
+        accessTokenScope: session.scope,
+        accessTokenExpiresAt: session.expiresAt,
+        refreshToken: session.refreshToken,
+      };
+      // v3 keeps the session timestamps in the JWE header
+      value = encryptSessionCookie(payload, secret, { iat, uat: iat, exp });
+    } else {
+      const payload: NextjsV4Session & { exp: number } = {
+        user,
+        tokenSet: {
+          accessToken: session.accessToken,
+          idToken: session.idToken,
+          refreshToken: session.refreshToken,
+          scope: session.scope,
+          expiresAt: session.expiresAt,
+        },
+        internal: { sid: randomBytes(16).toString("hex"), createdAt: iat },
+        exp,
+      };
+      value = encryptSessionCookie(payload, secret);
+    }
+
+    const cookieName = this.getNextjsCookieName();
+    if (value.length <= NEXTJS_MAX_CHUNK_SIZE) {
+      return [{ name: cookieName, value, expires: exp }];
+    }
+
+    const separator = NEXTJS_COOKIES[version].chunkSeparator;
+    const chunks: Array<{ name: string; value: string; expires: number }> = [];
+    for (let i = 0; i * NEXTJS_MAX_CHUNK_SIZE < value.length; i++) {
+      chunks.push({
+        name: `${cookieName}${separator}${i}`,
+        value: value.slice(
+          i * NEXTJS_MAX_CHUNK_SIZE,
+          (i + 1) * NEXTJS_MAX_CHUNK_SIZE
+        ),
+        expires: exp,
+      });
+    }
+    return chunks;
+  }
+
+  /**
+   * Reassemble and decrypt the session cookie
+   */
+  private readNextjsSession(
+    cookies: Array<{ name: string; value: string }>
+  ): NextjsV3Session | NextjsV4Session | undefined {
+    const cookieName = this.getNextjsCookieName();
+    const separator = NEXTJS_COOKIES[this.getNextjsVersion()].chunkSeparator;
+
+    let value = cookies.find((cookie) => cookie.name === cookieName)?.value;
+    if (value === undefined) {
+      const chunks: string[] = [];
+      for (let i = 0; ; i++) {
+        const chunk = cookies.find(
+          (cookie) => cookie.name === `${cookieName}${separator}${i}`
+        );
+        if (!chunk) break;
+        chunks.push(chunk.value);
+      }
+      if (chunks.length === 0) {
+        return undefined;
+      }
+      value = chunks.join("");
+    }
+
+    return decryptSessionCookie(value, this.config.nextjs!.secret);
+  }
+
+  /**
+   * Inject the session as @auth0/nextjs-auth0 session cookies
+   */
+  private async injectNextjsCookies(
+    page: Page,
+    session: Auth0Session
+  ): Promise<void> {
+    const { hostname, protocol } = new URL(page.url());
+    const cookies = this.buildNextjsCookies(session);
+
+    // Remove stale chunks/unchunked cookies from a previous session
+    const existing = await page.context().cookies();
+    for (const cookie of existing) {
+      if (this.isNextjsSessionCookie(cookie.name)) {
+        await page.context().clearCookies({ name: cookie.name });
+      }
+    }
+    await page.context().addCookies(
+      cookies.map((cookie) => ({
+        ...cookie,
+        domain: hostname,
+        path: "/",
+        httpOnly: true,
+        secure: protocol === "https:",
+        sameSite: "Lax" as const,
+      }))
+    );
+
+    console.log(
+      `[Auth0] Session injected into ${cookies.length} cookie(s):`,
+      this.getNextjsCookieName()
+    );
+  }
+
+  // ===========================================================================
+  // AuthProvider
+  // ===========================================================================
+
+  /**
+   * Sign in via the token endpoint and inject the session.
+   * Console logging, navigation and the final reload are handled by
+   * BaseAuthProvider.signIn().
+   */
+  protected async authenticate(page: Page): Promise<void> {
+    console.log("[Auth0] Authenticating via password-realm grant...");
+    const session = await this.authenticateViaAPI();
+    console.log("[Auth0] API authentication successful:", this.testUser.email);
+
+    if (this.config.sdk === "nextjs") {
+      await this.injectNextjsCookies(page, session);
+    } else {
+      await this.injectSpaCache(page, session);
+    }
+  }
+
+  /**
+   * Sign in via the token endpoint and build the storage state with the
+   * auth0-spa-js cache (or nextjs-auth0 session cookies) for `baseURL`
+   */
+  async createStorageState(baseURL: string): Promise<StorageState> {
+    console.log("[Auth0] Authenticating via password-realm grant...");
+    const session = await this.authenticateViaAPI();
+    console.log("[Auth0] API authentication successful:", this.testUser.email);
+
+    if (this.config.sdk === "nextjs") {
+      return buildStorageState(
+        baseURL,
+        [],
+        this.buildNextjsCookies(session).map((cookie) => ({
+          ...cookie,
+          httpOnly: true,
+        }))
+      );
+    }
+
+    return buildStorageState(baseURL, this.buildSpaCacheEntries(session), [
+      this.buildSpaAuthenticatedCookie(session),
+    ]);
+  }
+
+  /**
+   * Check that the session survived the reload
+   */
+  protected async isAuthenticated(page: Page): Promise<boolean> {
+    if (this.config.sdk === "nextjs") {
+      const cookies = await page.context().cookies();
+      return this.readNextjsSession(cookies) !== undefined;
+    }
+
+    const cached = await page.evaluate((key) => {
+      return localStorage.getItem(key);
+    }, this.getSpaTokenKey());
+    return cached !== null;
+  }
+
+  /**
+   * Read the Auth0 session from the saved localStorage cache or session
+   * cookie. Both store expiry in seconds.
+   */
+  readStoredSession(state: StorageState): StoredSession | undefined {
+    if (this.config.sdk === "nextjs") {
+      const session = this.readNextjsSession(state.cookies ?? []);
+      if (!session) {
+        return undefined;
+      }
+
+      const tokens =
+        "tokenSet" in session
+          ? session.tokenSet
+          : {
+              accessToken: session.accessToken,
+              refreshToken: session.refreshToken,
+              expiresAt: session.accessTokenExpiresAt,
+            };
+      return {
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        expiresAt: tokens.expiresAt * 1000,
+      };
+    }
+
+    const value = findLocalStorageItem(state, this.getSpaTokenKey());
+    if (!value) {
+      return undefined;
+    }
+
+    let entry: {
+      body?: { access_token?: string; refresh_token?: string };
+      expiresAt?: number;
+    };
+    try {
+      entry = JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+
+    if (!entry.body?.access_token) {
+      return undefined;
+    }
+
+    return {
+      accessToken: entry.body.access_token,
+      refreshToken: entry.body.refresh_token,
+      expiresAt: entry.expiresAt ? entry.expiresAt * 1000 : undefined,
+    };
+  }
+
+  /**
+   * Read the ID token from the saved localStorage cache or session cookie
+   */
+  private readStoredIdToken(state: StorageState): string | undefined {
+    if (this.config.sdk === "nextjs") {
+      const session = this.readNextjsSession(state.cookies ?? []);
+      if (!session) {
+        return undefined;
+      }
+      return "tokenSet" in session ? session.tokenSet.idToken : session.idToken;
+    }
+
+    const value = findLocalStorageItem(state, this.getSpaUserKey());
+    try {
+      return value ? (JSON.parse(value).id_token as string) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Exchange the stored refresh token for new tokens
+   * (grant_type=refresh_token) and write them back into the storage state.
+   * Requires the "offline_access" scope.
+   */
+  async refreshStoredSession(state: StorageState): Promise<StorageState> {
+    const stored = this.readStoredSession(state);
+    if (!stored?.refreshToken) {
+      throw new Error("No Auth0 refresh token found in storage state");
+    }
+
+    const session = await this.requestToken(
+      { grant_type: "refresh_token", refresh_token: stored.refreshToken },
+      "Auth0 token refresh failed"
+    );
+    // Without refresh token rotation the old token stays valid, and the
+    // ID token is only reissued when "openid" is granted
+    session.refreshToken ??= stored.refreshToken;
+    session.idToken ??= this.readStoredIdToken(state);
+
+    const refreshed = JSON.parse(JSON.stringify(state)) as StorageState;
+
+    if (this.config.sdk === "nextjs") {
+      const template = refreshed.cookies.find((cookie) =>
+        this.isNextjsSessionCookie(cookie.name)
+      );
+      if (!template) {
+        throw new Error("Auth0 session cookie not found in storage state");
+      }
+
+      refreshed.cookies = [
+        ...refreshed.cookies.filter(
+          (cookie) => !this.isNextjsSessionCookie(cookie.name)
+        ),
+        ...this.buildNextjsCookies(session).map((cookie) => ({
+          ...template,
+          ...cookie,
+        })),
+      ];
+    } else {
+      for (const entry of this.buildSpaCacheEntries(session)) {
+        setLocalStorageItem(refreshed, entry.name, entry.value);
+      }
+    }
+
+    return refreshed;
+  }
+}
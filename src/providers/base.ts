@@ -1,4 +1,5 @@
 import type { Page } from "@playwright/test";
+import type { StorageState, StoredSession } from "../types.js";
 
 /**
  * Base interface for all authentication providers.
@@ -10,6 +11,8 @@ import type { Page } from "@playwright/test";
  * The provider is responsible for:
  * 1. Executing the authentication flow
  * 2. Setting auth state (Cookie/IndexedDB/localStorage) in the browser
+ * 3. Reading its auth tokens back from a saved storage state
+ * 4. Clearing the auth state again on sign-out
  *
  * The caller is responsible for:
  * 1. Saving the storage state via context.storageState()
@@ -22,4 +25,189 @@ export interface AuthProvider {
    * @throws Error if authentication fails
    */
   signIn(page: Page): Promise<void>;
+
+  /**
+   * Clear the auth state signIn() set in the browser context, so the page
+   * is signed out after a reload.
+   *
+   * @param page - Playwright Page instance on the app
+   */
+  signOut(page: Page): Promise<void>;
+
+  /**
+   * Read the auth tokens written by signIn() back from a saved storage state.
+   * Used to attach bearer tokens to API requests and to check expiry.
+   *
+   * @param state - Parsed storage state file
+   * @returns The stored session, or undefined if none is found
+   */
+  readStoredSession(state: StorageState): StoredSession | undefined;
+
+  /**
+   * Exchange the refresh token in a saved storage state for new tokens.
+   *
+   * @param state - Parsed storage state file
+   * @returns A copy of the storage state holding the refreshed session
+   * @throws Error if no refresh token is stored or the refresh fails
+   */
+  refreshStoredSession(state: StorageState): Promise<StorageState>;
+
+  /**
+   * Sign in without a browser and build the storage state signIn() would
+   * produce, for token-only providers (localStorage entries and cookies).
+   * Used by authSetup({ browserless: true }).
+   *
+   * @param baseURL - App URL the localStorage entries and cookies belong to
+   */
+  createStorageState?(baseURL: string): Promise<StorageState>;
+
+  /**
+   * Delete the test user if the provider created it (provisioning).
+   * Called by authTeardown(), which also deletes the user's storage state
+   * when this resolves to true.
+   *
+   * @returns Whether the user was deleted
+   */
+  cleanup?(): Promise<boolean | void>;
+
+  /**
+   * Revoke the session saved in a storage state on the auth server, so its
+   * refresh token can no longer be used. Called by authTeardown().
+   *
+   * @param state - Parsed storage state file
+   */
+  revoke?(state: StorageState): Promise<void>;
+}
+
+/**
+ * Base class for providers, handling the steps shared by every sign-in flow:
+ *
+ * 1. Forward browser console output to the test log
+ * 2. Navigate to the app (storage is written on the page's origin)
+ * 3. authenticate() - provider-specific
+ * 4. Reload and check isAuthenticated()
+ *
+ * signOut() clears cookies, localStorage and sessionStorage and reloads.
+ *
+ * Subclasses implement authenticate() and readStoredSession(), and may
+ * override any of the other steps.
+ *
+ * @example
+ * ```typescript
+ * class SsoProvider extends BaseAuthProvider {
+ *   protected readonly name = "SSO";
+ *
+ *   protected async authenticate(page: Page): Promise<void> {
+ *     const token = await fetchSsoToken();
+ *     await page.evaluate((t) => localStorage.setItem("sso-token", t), token);
+ *   }
+ *
+ *   protected async isAuthenticated(page: Page): Promise<boolean> {
+ *     return page.evaluate(() => localStorage.getItem("sso-token") !== null);
+ *   }
+ *
+ *   readStoredSession(state: StorageState): StoredSession | undefined {
+ *     const token = findLocalStorageItem(state, "sso-token");
+ *     return token ? { accessToken: token } : undefined;
+ *   }
+ * }
+ * ```
+ */
+export abstract class BaseAuthProvider implements AuthProvider {
+  /** Provider name used as the log prefix, e.g. "Firebase" */
+  protected abstract readonly name: string;
+
+  /**
+   * Main sign-in flow
+   */
+  async signIn(page: Page): Promise<void> {
+    console.log(`[${this.name}] Starting authentication...`);
+
+    this.attachConsoleLogging(page);
+    await this.navigate(page);
+    await this.authenticate(page);
+    await this.verify(page);
+
+    console.log(`[${this.name}] Authentication complete`);
+  }
+
+  /**
+   * Sign-out flow: clear the auth state and reload so the app sees it.
+   * Navigates to the app first if the page is not on it yet.
+   */
+  async signOut(page: Page): Promise<void> {
+    console.log(`[${this.name}] Signing out...`);
+
+    if (!/^https?:/.test(page.url())) {
+      await this.navigate(page);
+    }
+    await this.clearAuthState(page);
+    await page.reload({ waitUntil: "networkidle" });
+
+    console.log(`[${this.name}] Sign out complete`);
+  }
+
+  /**
+   * Set the auth state in the browser. Called after navigate().
+   */
+  protected abstract authenticate(page: Page): Promise<void>;
+
+  /**
+   * Forward browser console output to the test log
+   */
+  protected attachConsoleLogging(page: Page): void {
+    page.on("console", (msg) => {
+      console.log(`[BROWSER] ${msg.type()}: ${msg.text()}`);
+    });
+  }
+
+  /**
+   * Navigate to the app (required to set storage on the correct origin)
+   */
+  protected async navigate(page: Page): Promise<void> {
+    await page.goto("/", { waitUntil: "networkidle" });
+  }
+
+  /**
+   * Reload so the app picks up the injected session, then check it persisted
+   *
+   * @throws Error if isAuthenticated() returns false
+   */
+  protected async verify(page: Page): Promise<void> {
+    await page.reload({ waitUntil: "networkidle" });
+
+    if (!(await this.isAuthenticated(page))) {
+      throw new Error(`${this.name} session was not persisted after reload`);
+    }
+  }
+
+  /**
+   * Remove the auth state from the browser: all cookies of the context,
+   * and localStorage and sessionStorage of the page's origin
+   */
+  protected async clearAuthState(page: Page): Promise<void> {
+    await page.context().clearCookies();
+    await page.evaluate(() => {
+      localStorage.clear();
+      sessionStorage.clear();
+    });
+  }
+
+  /**
+   * Check the auth state after reload. Accepts any state by default.
+   */
+  protected async isAuthenticated(_page: Page): Promise<boolean> {
+    return true;
+  }
+
+  abstract readStoredSession(state: StorageState): StoredSession | undefined;
+
+  /**
+   * Not supported unless overridden
+   *
+   * @throws Error always
+   */
+  async refreshStoredSession(_state: StorageState): Promise<StorageState> {
+    throw new Error(`${this.name} provider does not support session refresh`);
+  }
 }
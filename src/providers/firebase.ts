@@ -1,44 +1,136 @@
 import type { Page } from "@playwright/test";
 import admin from "firebase-admin";
 import * as fs from "fs";
+import { createRequire } from "module";
 import * as path from "path";
-import type { AuthProvider } from "./base.js";
+import { BaseAuthProvider } from "./base.js";
+import type { ProviderDefinition } from "./registry.js";
+import {
+  loadConfigFile,
+  resolveTestUser,
+  testUserPath,
+} from "../utils/config-loader.js";
+import {
+  validateConfig,
+  type ConfigIssue,
+} from "../utils/config-validator.js";
+import { signInWithCredentials } from "../utils/nextauth.js";
+import { findIndexedDBValues } from "../utils/storage-state.js";
 import type {
   FirebaseConfig,
   TestUser,
   NextAuthConfig,
   FirebaseSignInResult,
-  NextAuthSignInResult,
   PlaywrightAuthConfig,
+  StorageState,
+  StoredSession,
 } from "../types.js";
 
-// Firebase CDN URLs
-const FIREBASE_CDN_BASE = "https://www.gstatic.com/firebasejs/10.7.0";
-const FIREBASE_APP_COMPAT = `${FIREBASE_CDN_BASE}/firebase-app-compat.js`;
-const FIREBASE_AUTH_COMPAT = `${FIREBASE_CDN_BASE}/firebase-auth-compat.js`;
+// Firebase persistence location (IndexedDB)
+const FIREBASE_DB_NAME = "firebaseLocalStorageDb";
+const FIREBASE_STORE_NAME = "firebaseLocalStorage";
+
+// Firebase SDK (compat bundles expose window.firebase)
+const FIREBASE_CDN_BASE = "https://www.gstatic.com/firebasejs";
+const DEFAULT_FIREBASE_SDK_VERSION = "10.7.0";
+const FIREBASE_SDK_FILES = [
+  "firebase-app-compat.js",
+  "firebase-auth-compat.js",
+] as const;
+
+// Token refresh endpoint (Secure Token API)
+const SECURE_TOKEN_URL = "https://securetoken.googleapis.com/v1/token";
+
+// Custom token exchange endpoint (Identity Toolkit API)
+const SIGN_IN_WITH_CUSTOM_TOKEN_URL =
+  "https://identitytoolkit.googleapis.com/v1/accounts:signInWithCustomToken";
+
+// Session-cookie mode defaults
+const DEFAULT_SESSION_COOKIE_NAME = "__session";
+const DEFAULT_SESSION_COOKIE_MAX_AGE = 5 * 24 * 60 * 60;
+
+// Custom claim marking users created by `provision`; cleanup() deletes
+// only these, never existing accounts that were reused
+const PROVISIONED_CLAIM = "provisioned_by";
+const PROVISIONED_BY = "playwright-nextjs-auth";
+
+// Same-origin path local SDK files are served from (passes CSP "self")
+const LOCAL_SDK_ROUTE_PATH = "/__playwright-auth/firebase";
+
+// ID and refresh token of a signed-in user
+interface FirebaseTokens {
+  idToken?: string;
+  refreshToken?: string;
+}
+
+// Token manager of a Firebase user entry as persisted in IndexedDB
+interface StoredTokenManager {
+  accessToken?: string;
+  refreshToken?: string;
+  expirationTime?: number;
+}
+
+// Firebase user entry as persisted in IndexedDB
+interface StoredFirebaseUser {
+  fbase_key?: string;
+  value?: {
+    uid?: string;
+    stsTokenManager?: StoredTokenManager;
+  };
+}
+
+/**
+ * Check whether a user record was created by `provision`
+ */
+function isProvisioned(user: admin.auth.UserRecord): boolean {
+  return user.customClaims?.[PROVISIONED_CLAIM] === PROVISIONED_BY;
+}
 
 /**
  * Firebase Authentication Provider using CDN Injection strategy.
  *
  * This provider:
  * 1. Generates a custom token using Firebase Admin SDK (Node.js side)
- * 2. Injects Firebase SDK from CDN into the browser
+ * 2. Injects Firebase SDK into the browser (from CDN or local files)
  * 3. Executes signInWithCustomToken in the browser context
  * 4. Optionally handles NextAuth credentials sign-in
  *
  * The CDN injection approach avoids IndexedDB conflicts with the app's
  * bundled Firebase SDK by using the Firebase SDK itself to write auth state.
+ *
+ * With `emulator` configured (or FIREBASE_AUTH_EMULATOR_HOST set), both the
+ * Admin SDK and the injected browser SDK talk to the local Auth Emulator.
+ *
+ * With `sessionCookie` configured, the custom token is exchanged for an ID
+ * token over REST and a session cookie is added instead of (or, with
+ * `sessionCookie.indexedDB`, in addition to) the IndexedDB state.
  */
-export class FirebaseProvider implements AuthProvider {
+export class FirebaseProvider extends BaseAuthProvider {
+  /** Registry entry for the "firebase" provider type */
+  static readonly definition: ProviderDefinition = {
+    validate: (config, userName) => FirebaseProvider.validate(config, userName),
+    create: (config, userName) =>
+      new FirebaseProvider(
+        config.firebase!,
+        resolveTestUser(config, userName),
+        config.nextAuth
+      ),
+    provisionsUsers: (config) => config.firebase?.provision === true,
+  };
+
+  protected readonly name = "Firebase";
   private config: FirebaseConfig;
   private testUser: TestUser;
   private nextAuth?: NextAuthConfig;
+  /** Whether the resolved user carries the PROVISIONED_CLAIM marker */
+  private provisioned = false;
 
   private constructor(
     config: FirebaseConfig,
     testUser: TestUser,
     nextAuth?: NextAuthConfig
   ) {
+    super();
     this.config = config;
     this.testUser = testUser;
     this.nextAuth = nextAuth;
@@ -47,107 +139,318 @@ export class FirebaseProvider implements AuthProvider {
   /**
    * Create a FirebaseProvider from a configuration file.
    * Loads, validates, and returns a ready-to-use provider.
+   *
+   * @param configPath - Path to playwright.env.json
+   * @param userName - Named user from "testUsers" (default: "testUser")
    */
-  static fromConfigFile(configPath: string): FirebaseProvider {
-    const absolutePath = path.isAbsolute(configPath)
-      ? configPath
-      : path.resolve(process.cwd(), configPath);
+  static fromConfigFile(
+    configPath: string,
+    userName?: string
+  ): FirebaseProvider {
+    return FirebaseProvider.fromConfig(loadConfigFile(configPath), userName);
+  }
 
-    if (!fs.existsSync(absolutePath)) {
+  /**
+   * Create a FirebaseProvider from an in-memory configuration object.
+   * Validates and returns a ready-to-use provider.
+   *
+   * @param config - Parsed configuration
+   * @param userName - Named user from "testUsers" (default: "testUser")
+   */
+  static fromConfig(
+    config: PlaywrightAuthConfig,
+    userName?: string
+  ): FirebaseProvider {
+    // Validate provider type
+    if (config.provider !== "firebase") {
       throw new Error(
-        `Configuration file not found: ${absolutePath}\n` +
-          `Please create the file from playwright.env.json.sample`
+        `Invalid provider: expected "firebase", got "${config.provider}"`
       );
     }
 
-    const content = fs.readFileSync(absolutePath, "utf-8");
-    let rawConfig: PlaywrightAuthConfig;
+    // Validate the whole config, including Firebase-specific rules
+    validateConfig(config, FirebaseProvider.validate(config, userName));
+
+    return FirebaseProvider.definition.create(
+      config,
+      userName
+    ) as FirebaseProvider;
+  }
+
+  /**
+   * Collect Firebase-specific configuration problems
+   */
+  private static validate(
+    config: PlaywrightAuthConfig,
+    userName?: string
+  ): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+    const userPath = testUserPath(userName);
 
     try {
-      rawConfig = JSON.parse(content);
-    } catch {
-      throw new Error(
-        `Failed to parse configuration file: ${absolutePath}\n` +
-          `Please ensure the file contains valid JSON`
-      );
+      const testUser = resolveTestUser(config, userName);
+      if (config.firebase?.provision) {
+        if (!testUser.email) {
+          issues.push({
+            path: `$.${userPath}.email`,
+            message: `Firebase provisioning requires "${userPath}.email"`,
+          });
+        }
+      } else if (!testUser.uid) {
+        issues.push({
+          path: `$.${userPath}.uid`,
+          message: `Firebase authentication requires "${userPath}.uid"`,
+        });
+      }
+    } catch (error) {
+      issues.push({ path: `$.${userPath}`, message: (error as Error).message });
     }
 
-    // Validate provider type
-    if (rawConfig.provider !== "firebase") {
-      throw new Error(
-        `Invalid provider: expected "firebase", got "${rawConfig.provider}"`
-      );
+    if (!config.firebase) {
+      issues.push({
+        path: "$.firebase",
+        message: 'Firebase provider requires "firebase" configuration',
+      });
+      return issues;
+    }
+
+    const useEmulator = Boolean(
+      config.firebase.emulator?.host ?? process.env.FIREBASE_AUTH_EMULATOR_HOST
+    );
+    if (!config.firebase.serviceAccount && !useEmulator) {
+      issues.push({
+        path: "$.firebase.serviceAccount",
+        message: 'Firebase configuration requires "serviceAccount"',
+      });
     }
 
-    // Validate Firebase config
-    FirebaseProvider.validate(rawConfig);
+    return issues;
+  }
 
-    return new FirebaseProvider(
-      rawConfig.firebase!,
-      rawConfig.testUser,
-      rawConfig.nextAuth
+  /**
+   * Get the Auth Emulator host, if the emulator is in use.
+   * The config takes precedence over FIREBASE_AUTH_EMULATOR_HOST.
+   */
+  private getEmulatorHost(): string | undefined {
+    return (
+      this.config.emulator?.host ?? process.env.FIREBASE_AUTH_EMULATOR_HOST
     );
   }
 
   /**
-   * Validate Firebase-specific configuration
+   * Initialize Firebase Admin SDK (singleton pattern)
    */
-  private static validate(config: PlaywrightAuthConfig): void {
-    if (!config.testUser) {
-      throw new Error('Configuration must specify "testUser" field');
-    }
+  private initializeAdmin(): void {
+    const emulatorHost = this.getEmulatorHost();
 
-    if (!config.firebase) {
-      throw new Error('Firebase provider requires "firebase" configuration');
+    // The Admin SDK reads the emulator host from the environment and
+    // issues unsigned custom tokens, so no service account is needed.
+    if (emulatorHost) {
+      process.env.FIREBASE_AUTH_EMULATOR_HOST = emulatorHost;
     }
 
-    if (!config.firebase.serviceAccount) {
-      throw new Error('Firebase configuration requires "serviceAccount"');
+    if (admin.apps && admin.apps.length > 0) {
+      return;
     }
 
-    if (!config.firebase.clientConfig) {
-      throw new Error('Firebase configuration requires "clientConfig"');
+    if (emulatorHost && !this.config.serviceAccount) {
+      admin.initializeApp({ projectId: this.config.clientConfig.projectId });
+      return;
     }
 
-    const { clientConfig } = config.firebase;
-    const requiredClientFields = ["apiKey", "authDomain", "projectId"] as const;
+    admin.initializeApp({
+      credential: admin.credential.cert(
+        this.config.serviceAccount as admin.ServiceAccount
+      ),
+    });
+  }
+
+  /**
+   * Get the tenant ID the test user signs in to, if any
+   */
+  private getTenantId(): string | undefined {
+    return this.testUser.tenantId ?? this.config.tenantId;
+  }
 
-    for (const field of requiredClientFields) {
-      if (!(field in clientConfig)) {
-        throw new Error(`Firebase clientConfig requires "${field}"`);
+  /**
+   * Get the Admin auth instance, scoped to the tenant if one is configured
+   */
+  private getAuth(): admin.auth.BaseAuth {
+    const tenantId = this.getTenantId();
+    return tenantId
+      ? admin.auth().tenantManager().authForTenant(tenantId)
+      : admin.auth();
+  }
+
+  /**
+   * Look up the provisioned test user by email
+   *
+   * @returns The user record, or undefined if no user has the email
+   */
+  private async findUserByEmail(
+    email: string
+  ): Promise<admin.auth.UserRecord | undefined> {
+    try {
+      return await this.getAuth().getUserByEmail(email);
+    } catch (error) {
+      if ((error as { code?: string }).code === "auth/user-not-found") {
+        return undefined;
       }
+      throw error;
     }
+  }
 
-    if (!config.testUser.uid) {
-      throw new Error('Firebase authentication requires "testUser.uid"');
+  /**
+   * Resolve the UID to sign in as. With `provision`, the user is looked up
+   * by email and created if missing; created users are marked with the
+   * PROVISIONED_CLAIM custom claim.
+   */
+  private async resolveUid(): Promise<string> {
+    if (!this.config.provision) {
+      const uid = this.testUser.uid;
+      if (!uid) {
+        throw new Error(
+          "Firebase authentication requires testUser.uid to be set"
+        );
+      }
+      return uid;
     }
+
+    const email = this.testUser.email;
+    if (!email) {
+      throw new Error(
+        "Firebase provisioning requires testUser.email to be set"
+      );
+    }
+
+    const existing = await this.findUserByEmail(email);
+    if (existing) {
+      this.provisioned = isProvisioned(existing);
+      console.log("[Firebase] Using existing user:", existing.uid);
+      return existing.uid;
+    }
+
+    const created = await this.getAuth().createUser({
+      uid: this.testUser.uid,
+      email,
+      password: this.testUser.password,
+      displayName: this.testUser.displayName,
+      emailVerified: this.testUser.emailVerified ?? false,
+    });
+    this.provisioned = true;
+    await this.getAuth().setCustomUserClaims(
+      created.uid,
+      this.withProvisionedClaim(this.testUser.claims ?? {})
+    );
+    console.log("[Firebase] Provisioned user:", created.uid);
+
+    return created.uid;
   }
 
   /**
-   * Initialize Firebase Admin SDK (singleton pattern)
+   * Add the PROVISIONED_CLAIM marker to persisted claims of a provisioned
+   * user, so persisting the test user's claims keeps it
    */
-  private initializeAdmin(): void {
-    if (admin.apps && admin.apps.length > 0) {
-      return;
+  private withProvisionedClaim(
+    claims: Record<string, unknown>
+  ): Record<string, unknown> {
+    return this.provisioned
+      ? { ...claims, [PROVISIONED_CLAIM]: PROVISIONED_BY }
+      : claims;
+  }
+
+  /**
+   * Create a custom token carrying the test user's claims, either as
+   * developer claims or persisted on the user record
+   */
+  private async createCustomToken(uid: string): Promise<string> {
+    const claims = this.testUser.claims;
+    if (!claims) {
+      return this.getAuth().createCustomToken(uid);
     }
 
-    admin.initializeApp({
-      credential: admin.credential.cert(
-        this.config.serviceAccount as admin.ServiceAccount
-      ),
-    });
+    if (this.config.persistClaims) {
+      await this.getAuth().setCustomUserClaims(
+        uid,
+        this.withProvisionedClaim(claims)
+      );
+      console.log("[Firebase] Custom claims persisted:", Object.keys(claims));
+      return this.getAuth().createCustomToken(uid);
+    }
+
+    return this.getAuth().createCustomToken(uid, claims);
+  }
+
+  /**
+   * Inject Firebase SDK scripts into the page from the configured source
+   */
+  private async injectSDKScripts(page: Page): Promise<void> {
+    if (this.config.sdk?.source === "local") {
+      await this.injectLocalScripts(page);
+    } else {
+      await this.injectCDNScripts(page);
+    }
+
+    console.log("[Firebase] SDK injection complete");
   }
 
   /**
    * Inject Firebase SDK scripts from CDN into the page
    */
   private async injectCDNScripts(page: Page): Promise<void> {
-    console.log("[Firebase] Injecting Firebase SDK from CDN...");
+    const version = this.config.sdk?.version ?? DEFAULT_FIREBASE_SDK_VERSION;
+    console.log(`[Firebase] Injecting Firebase SDK ${version} from CDN...`);
 
-    await page.addScriptTag({ url: FIREBASE_APP_COMPAT });
-    await page.addScriptTag({ url: FIREBASE_AUTH_COMPAT });
+    for (const file of FIREBASE_SDK_FILES) {
+      await page.addScriptTag({
+        url: `${FIREBASE_CDN_BASE}/${version}/${file}`,
+      });
+    }
+  }
 
-    console.log("[Firebase] SDK injection complete");
+  /**
+   * Resolve the directory containing the local compat SDK bundles.
+   * Defaults to the "firebase" package installed in the current project.
+   */
+  private resolveLocalSDKDir(): string {
+    if (this.config.sdk?.localPath) {
+      return path.resolve(process.cwd(), this.config.sdk.localPath);
+    }
+
+    try {
+      const require = createRequire(path.join(process.cwd(), "package.json"));
+      return path.dirname(require.resolve("firebase/package.json"));
+    } catch {
+      throw new Error(
+        'Firebase SDK not found. Install the "firebase" package ' +
+          'or set "firebase.sdk.localPath"'
+      );
+    }
+  }
+
+  /**
+   * Inject Firebase SDK scripts from local files.
+   * Files are served on the app origin via page.route, so no network
+   * access is needed and a "script-src 'self'" CSP allows them.
+   */
+  private async injectLocalScripts(page: Page): Promise<void> {
+    const sdkDir = this.resolveLocalSDKDir();
+    const origin = new URL(page.url()).origin;
+    console.log(`[Firebase] Injecting Firebase SDK from ${sdkDir}...`);
+
+    for (const file of FIREBASE_SDK_FILES) {
+      const filePath = path.join(sdkDir, file);
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`Firebase SDK file not found: ${filePath}`);
+      }
+
+      const url = `${origin}${LOCAL_SDK_ROUTE_PATH}/${file}`;
+      await page.route(url, (route) =>
+        route.fulfill({ path: filePath, contentType: "text/javascript" })
+      );
+      await page.addScriptTag({ url });
+      await page.unroute(url);
+    }
   }
 
   /**
@@ -158,9 +461,12 @@ export class FirebaseProvider implements AuthProvider {
     customToken: string
   ): Promise<FirebaseSignInResult> {
     const clientConfig = this.config.clientConfig;
+    const emulatorHost = this.getEmulatorHost();
+    const emulatorUrl = emulatorHost ? `http://${emulatorHost}` : undefined;
+    const tenantId = this.getTenantId() ?? null;
 
     return await page.evaluate(
-      async ({ token, config }) => {
+      async ({ token, config, emulatorUrl, tenantId }) => {
         try {
           console.log("[AUTH] Initializing Firebase app...");
 
@@ -179,6 +485,19 @@ export class FirebaseProvider implements AuthProvider {
 
           // @ts-expect-error - window.firebase is injected via CDN
           const auth = window.firebase.auth(app);
+
+          // Must be connected before any other auth call
+          if (emulatorUrl && !auth.emulatorConfig) {
+            auth.useEmulator(emulatorUrl, { disableWarnings: true });
+            console.log("[AUTH] Connected to Auth Emulator:", emulatorUrl);
+          }
+
+          // Custom tokens only sign in to the tenant they were minted for
+          auth.tenantId = tenantId;
+          if (tenantId) {
+            console.log("[AUTH] Using tenant:", tenantId);
+          }
+
           console.log("[AUTH] Calling signInWithCustomToken...");
 
           const userCredential = await auth.signInWithCustomToken(token);
@@ -203,90 +522,109 @@ export class FirebaseProvider implements AuthProvider {
           };
         }
       },
-      { token: customToken, config: clientConfig }
+      { token: customToken, config: clientConfig, emulatorUrl, tenantId }
     );
   }
 
   /**
-   * Execute NextAuth credentials sign-in (optional)
+   * Exchange a custom token for an ID token through the REST API
+   * (no browser needed)
    */
-  private async executeNextAuthSignIn(
-    page: Page,
-    idToken: string,
-    refreshToken: string
-  ): Promise<NextAuthSignInResult> {
-    const callbackUrl = this.nextAuth?.callbackUrl ?? "/";
-
-    return await page.evaluate(
-      async ({ idToken, refreshToken, callbackUrl }) => {
-        try {
-          // Get CSRF token
-          const csrfResponse = await fetch("/api/auth/csrf");
-          const csrfData = (await csrfResponse.json()) as { csrfToken: string };
-          const csrfToken = csrfData.csrfToken;
-
-          // NextAuth credentials sign-in
-          const response = await fetch("/api/auth/callback/credentials", {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/x-www-form-urlencoded",
-            },
-            body: new URLSearchParams({
-              csrfToken,
-              idToken,
-              refreshToken,
-              callbackUrl,
-              json: "true",
-            }),
-            redirect: "manual",
-          });
-
-          console.log("[NEXTAUTH] Response status:", response.status);
-
-          return {
-            success: response.status === 200 || response.status === 302,
-            status: response.status,
-          };
-        } catch (error) {
-          console.error("[NEXTAUTH] Sign in failed:", error);
-          return {
-            success: false,
-            error: String(error),
-          };
-        }
-      },
-      { idToken, refreshToken, callbackUrl }
+  private async exchangeCustomToken(
+    customToken: string
+  ): Promise<FirebaseTokens> {
+    const emulatorHost = this.getEmulatorHost();
+    const exchangeUrl = emulatorHost
+      ? `http://${emulatorHost}/${SIGN_IN_WITH_CUSTOM_TOKEN_URL.replace("https://", "")}`
+      : SIGN_IN_WITH_CUSTOM_TOKEN_URL;
+
+    const response = await fetch(
+      `${exchangeUrl}?key=${this.config.clientConfig.apiKey}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          token: customToken,
+          returnSecureToken: true,
+          tenantId: this.getTenantId(),
+        }),
+      }
     );
-  }
 
-  /**
-   * Main sign-in flow
-   */
-  async signIn(page: Page): Promise<void> {
-    const uid = this.testUser.uid;
-    if (!uid) {
+    if (!response.ok) {
+      const error = await response.text();
       throw new Error(
-        "Firebase authentication requires testUser.uid to be set"
+        `Firebase custom token exchange failed: ${response.status} - ${error}`
       );
     }
 
-    // 1. Initialize Admin SDK and generate custom token
-    this.initializeAdmin();
-    const customToken = await admin.auth().createCustomToken(uid);
-    console.log("[Firebase] Custom token generated for UID:", uid);
+    const data = (await response.json()) as {
+      idToken: string;
+      refreshToken: string;
+    };
+    return { idToken: data.idToken, refreshToken: data.refreshToken };
+  }
 
-    // 2. Setup browser console logging
-    page.on("console", (msg) => {
-      console.log(`[BROWSER] ${msg.type()}: ${msg.text()}`);
+  /**
+   * Create a session cookie value from an ID token
+   *
+   * @returns The cookie value and its expiry in seconds since the epoch
+   */
+  private async createSessionCookie(
+    idToken: string
+  ): Promise<{ value: string; expires: number }> {
+    const maxAge =
+      this.config.sessionCookie?.maxAge ?? DEFAULT_SESSION_COOKIE_MAX_AGE;
+    const value = await this.getAuth().createSessionCookie(idToken, {
+      expiresIn: maxAge * 1000,
     });
 
-    // 3. Navigate to the app (required for CDN injection)
-    await page.goto("/", { waitUntil: "networkidle" });
+    return { value, expires: Math.floor(Date.now() / 1000) + maxAge };
+  }
+
+  /**
+   * Get the session cookie name
+   */
+  private getSessionCookieName(): string {
+    return this.config.sessionCookie?.name ?? DEFAULT_SESSION_COOKIE_NAME;
+  }
+
+  /**
+   * Add the session cookie through the browser context, so it is included
+   * in the saved storage state
+   */
+  private async addSessionCookie(page: Page, idToken: string): Promise<void> {
+    const { value, expires } = await this.createSessionCookie(idToken);
+    const { hostname, protocol } = new URL(page.url());
+    const name = this.getSessionCookieName();
+
+    await page.context().addCookies([
+      {
+        name,
+        value,
+        domain: this.config.sessionCookie?.domain ?? hostname,
+        path: "/",
+        expires,
+        httpOnly: true,
+        secure: protocol === "https:",
+        sameSite: "Lax",
+      },
+    ]);
+    console.log("[Firebase] Session cookie added:", name);
+  }
 
-    // 4. Inject Firebase SDK from CDN
-    await this.injectCDNScripts(page);
+  /**
+   * Sign in the browser SDK with a custom token, persisting the user in
+   * IndexedDB
+   */
+  private async signInBrowser(
+    page: Page,
+    customToken: string
+  ): Promise<FirebaseTokens> {
+    // Inject Firebase SDK (CDN or local files)
+    await this.injectSDKScripts(page);
 
-    // 5. Execute signInWithCustomToken
+    // Execute signInWithCustomToken
     console.log("[Firebase] Executing signInWithCustomToken in browser...");
     const signInResult = await this.executeSignIn(page, customToken);
 
@@ -295,29 +633,18 @@ export class FirebaseProvider implements AuthProvider {
     }
     console.log("[Firebase] Sign in successful:", signInResult.uid);
 
-    // 6. NextAuth integration (optional)
-    if (this.nextAuth?.enabled && signInResult.idToken && signInResult.refreshToken) {
-      console.log("[Firebase] Executing NextAuth credentials sign in...");
-      const nextAuthResult = await this.executeNextAuthSignIn(
-        page,
-        signInResult.idToken,
-        signInResult.refreshToken
-      );
-
-      if (!nextAuthResult.success) {
-        console.warn(
-          "[Firebase] NextAuth sign in may have failed:",
-          nextAuthResult.status || nextAuthResult.error
-        );
-      } else {
-        console.log("[Firebase] NextAuth sign in successful");
-      }
-    }
+    return {
+      idToken: signInResult.idToken,
+      refreshToken: signInResult.refreshToken,
+    };
+  }
 
-    // 7. Wait for IndexedDB persistence
+  /**
+   * Wait for the browser SDK to persist the user and log the IndexedDB keys
+   */
+  private async waitForPersistence(page: Page): Promise<void> {
     await page.waitForTimeout(2000);
 
-    // 8. Verify IndexedDB state
     const indexedDBKeys = await page.evaluate(async () => {
       return new Promise<string[]>((resolve) => {
         const request = indexedDB.open("firebaseLocalStorageDb");
@@ -340,9 +667,299 @@ export class FirebaseProvider implements AuthProvider {
       });
     });
     console.log("[Firebase] IndexedDB keys:", JSON.stringify(indexedDBKeys));
+  }
+
+  /**
+   * Whether the browser SDK signs in and persists the user in IndexedDB
+   */
+  private usesIndexedDB(): boolean {
+    return (
+      !this.config.sessionCookie || Boolean(this.config.sessionCookie.indexedDB)
+    );
+  }
+
+  /**
+   * Sign in with a custom token in the browser, or add a session cookie.
+   * Console logging, navigation and the final reload are handled by
+   * BaseAuthProvider.signIn().
+   */
+  protected async authenticate(page: Page): Promise<void> {
+    // 1. Initialize Admin SDK, provision the user and generate custom token
+    this.initializeAdmin();
+    const uid = await this.resolveUid();
+    const customToken = await this.createCustomToken(uid);
+    console.log("[Firebase] Custom token generated for UID:", uid);
+
+    // 2. Sign in the browser SDK, or exchange the custom token via REST
+    const tokens = this.usesIndexedDB()
+      ? await this.signInBrowser(page, customToken)
+      : await this.exchangeCustomToken(customToken);
+
+    // 3. Session cookie (optional)
+    if (this.config.sessionCookie) {
+      if (!tokens.idToken) {
+        throw new Error("Firebase session cookie requires an ID token");
+      }
+      await this.addSessionCookie(page, tokens.idToken);
+    }
+
+    // 4. NextAuth integration (optional)
+    if (this.nextAuth?.enabled && tokens.idToken && tokens.refreshToken) {
+      console.log("[Firebase] Executing NextAuth credentials sign in...");
+      const nextAuthResult = await signInWithCredentials(
+        page,
+        {
+          idToken: tokens.idToken,
+          refreshToken: tokens.refreshToken,
+        },
+        this.nextAuth
+      );
+
+      if (!nextAuthResult.success) {
+        if (this.nextAuth.required) {
+          throw new Error(`NextAuth sign in failed: ${nextAuthResult.error}`);
+        }
+        console.warn(
+          "[Firebase] NextAuth sign in may have failed:",
+          nextAuthResult.error
+        );
+      } else {
+        console.log("[Firebase] NextAuth sign in successful");
+      }
+    }
+
+    // 5. Wait for IndexedDB persistence
+    if (this.usesIndexedDB()) {
+      await this.waitForPersistence(page);
+    }
+  }
+
+  /**
+   * Check that the session cookie survived the reload
+   */
+  protected async isAuthenticated(page: Page): Promise<boolean> {
+    if (!this.config.sessionCookie) {
+      return true;
+    }
+
+    const name = this.getSessionCookieName();
+    const cookies = await page.context().cookies();
+    return cookies.some((cookie) => cookie.name === name);
+  }
+
+  /**
+   * Clear cookies and web storage, and the persisted user in IndexedDB
+   * (the store is cleared rather than deleted, since the app's SDK keeps
+   * the database open)
+   */
+  protected async clearAuthState(page: Page): Promise<void> {
+    await super.clearAuthState(page);
+    await page.evaluate(
+      ({ dbName, storeName }) =>
+        new Promise<void>((resolve) => {
+          const request = indexedDB.open(dbName);
+          request.onsuccess = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(storeName)) {
+              db.close();
+              resolve();
+              return;
+            }
+            const tx = db.transaction([storeName], "readwrite");
+            tx.objectStore(storeName).clear();
+            tx.oncomplete = () => {
+              db.close();
+              resolve();
+            };
+            tx.onerror = () => {
+              db.close();
+              resolve();
+            };
+          };
+          request.onerror = () => resolve();
+        }),
+      { dbName: FIREBASE_DB_NAME, storeName: FIREBASE_STORE_NAME }
+    );
+  }
+
+  /**
+   * Find the Firebase user entry in the saved IndexedDB state.
+   * The entry key is "firebase:authUser:<apiKey>:<appName>".
+   */
+  private findStoredUser(state: StorageState): StoredFirebaseUser | undefined {
+    const keyPrefix = `firebase:authUser:${this.config.clientConfig.apiKey}:`;
+    const records = findIndexedDBValues(
+      state,
+      FIREBASE_DB_NAME,
+      FIREBASE_STORE_NAME
+    ) as StoredFirebaseUser[];
+
+    return records.find((entry) => entry.fbase_key?.startsWith(keyPrefix));
+  }
+
+  /**
+   * Read the Firebase user entry from the saved IndexedDB state, or the
+   * session cookie in session-cookie mode.
+   */
+  readStoredSession(state: StorageState): StoredSession | undefined {
+    const tokenManager = this.findStoredUser(state)?.value?.stsTokenManager;
+
+    if (tokenManager?.accessToken) {
+      return {
+        accessToken: tokenManager.accessToken,
+        refreshToken: tokenManager.refreshToken,
+        expiresAt: tokenManager.expirationTime,
+      };
+    }
+
+    if (this.config.sessionCookie) {
+      const name = this.getSessionCookieName();
+      const cookie = state.cookies?.find((cookie) => cookie.name === name);
+      if (cookie) {
+        return {
+          accessToken: cookie.value,
+          expiresAt: cookie.expires > 0 ? cookie.expires * 1000 : undefined,
+        };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Exchange the stored refresh token for a new ID token via the
+   * Secure Token API and write it back into the IndexedDB entry.
+   * In session-cookie mode the session cookie is replaced as well (without
+   * IndexedDB, from a newly minted custom token).
+   */
+  async refreshStoredSession(state: StorageState): Promise<StorageState> {
+    const refreshed = JSON.parse(JSON.stringify(state)) as StorageState;
+    const tokenManager = this.findStoredUser(refreshed)?.value?.stsTokenManager;
+
+    let idToken: string | undefined;
+    if (tokenManager?.refreshToken) {
+      idToken = await this.refreshIdToken(tokenManager);
+    } else if (this.config.sessionCookie && !this.usesIndexedDB()) {
+      this.initializeAdmin();
+      const customToken = await this.createCustomToken(await this.resolveUid());
+      idToken = (await this.exchangeCustomToken(customToken)).idToken;
+    } else {
+      throw new Error("No Firebase refresh token found in storage state");
+    }
+
+    if (this.config.sessionCookie) {
+      const name = this.getSessionCookieName();
+      const cookie = refreshed.cookies?.find((cookie) => cookie.name === name);
+      if (!cookie) {
+        throw new Error("Firebase session cookie not found in storage state");
+      }
+      if (!idToken) {
+        throw new Error("Firebase session cookie requires an ID token");
+      }
+
+      this.initializeAdmin();
+      Object.assign(cookie, await this.createSessionCookie(idToken));
+    }
+
+    return refreshed;
+  }
+
+  /**
+   * Exchange a refresh token for a new ID token via the Secure Token API
+   * and update the token manager in place
+   *
+   * @returns The new ID token
+   */
+  private async refreshIdToken(
+    tokenManager: StoredTokenManager
+  ): Promise<string> {
+    const emulatorHost = this.getEmulatorHost();
+    const tokenUrl = emulatorHost
+      ? `http://${emulatorHost}/${SECURE_TOKEN_URL.replace("https://", "")}`
+      : SECURE_TOKEN_URL;
+
+    const response = await fetch(
+      `${tokenUrl}?key=${this.config.clientConfig.apiKey}`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+          grant_type: "refresh_token",
+          refresh_token: tokenManager.refreshToken!,
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(
+        `Firebase token refresh failed: ${response.status} - ${error}`
+      );
+    }
+
+    const data = (await response.json()) as {
+      id_token: string;
+      refresh_token: string;
+      expires_in: string;
+    };
+
+    tokenManager.accessToken = data.id_token;
+    tokenManager.refreshToken = data.refresh_token;
+    tokenManager.expirationTime = Date.now() + Number(data.expires_in) * 1000;
+
+    return data.id_token;
+  }
+
+  /**
+   * Revoke the refresh tokens of the user in a storage state (its IndexedDB
+   * entry, otherwise the configured user) with revokeRefreshTokens.
+   * This signs the user out everywhere, and session cookies fail
+   * verifySessionCookie(cookie, true).
+   */
+  async revoke(state: StorageState): Promise<void> {
+    this.initializeAdmin();
+
+    let uid = this.findStoredUser(state)?.value?.uid ?? this.testUser.uid;
+    if (!uid && this.config.provision && this.testUser.email) {
+      uid = (await this.findUserByEmail(this.testUser.email))?.uid;
+    }
+    if (!uid) {
+      return;
+    }
+
+    await this.getAuth().revokeRefreshTokens(uid);
+    console.log("[Firebase] Revoked refresh tokens for UID:", uid);
+  }
+
+  /**
+   * Delete the test user found by email if `provision` created it.
+   * Users configured by uid, and existing accounts `provision` reused,
+   * are never removed.
+   *
+   * @returns Whether the user was deleted
+   */
+  async cleanup(): Promise<boolean> {
+    if (!this.config.provision || !this.testUser.email) {
+      return false;
+    }
+
+    this.initializeAdmin();
+    const user = await this.findUserByEmail(this.testUser.email);
+    if (!user) {
+      return false;
+    }
+    if (!isProvisioned(user)) {
+      console.log(
+        "[Firebase] Keeping user not created by provisioning:",
+        user.uid
+      );
+      return false;
+    }
 
-    // 9. Reload to verify auth state persists
-    await page.reload({ waitUntil: "networkidle" });
-    console.log("[Firebase] Authentication complete");
+    await this.getAuth().deleteUser(user.uid);
+    console.log("[Firebase] Deleted provisioned user:", user.uid);
+    return true;
   }
 }
@@ -0,0 +1,185 @@
+import type { Page } from "@playwright/test";
+import { BaseAuthProvider } from "./base.js";
+import type { ProviderDefinition } from "./registry.js";
+import {
+  loadConfigFile,
+  resolveTestUser,
+  testUserPath,
+} from "../utils/config-loader.js";
+import { validateConfig, type ConfigIssue } from "../utils/config-validator.js";
+import {
+  findSessionCookies,
+  signInWithCredentials,
+} from "../utils/nextauth.js";
+import type {
+  NextAuthConfig,
+  TestUser,
+  PlaywrightAuthConfig,
+  StorageState,
+  StoredSession,
+} from "../types.js";
+
+/**
+ * Get the credentials posted for a test user: `credentials` if set,
+ * otherwise its email and password
+ */
+function getCredentials(testUser: TestUser): Record<string, string> {
+  if (testUser.credentials) {
+    return testUser.credentials;
+  }
+
+  const credentials: Record<string, string> = {};
+  if (testUser.email) credentials.email = testUser.email;
+  if (testUser.password) credentials.password = testUser.password;
+  return credentials;
+}
+
+/**
+ * NextAuth / Auth.js Credentials Provider.
+ *
+ * For apps that authenticate users with a NextAuth credentials provider
+ * (e.g. username/password checked against the app's own database).
+ *
+ * This provider:
+ * 1. Fetches a CSRF token from `<basePath>/csrf`
+ * 2. Posts the test user's credentials to `<basePath>/callback/<providerId>`
+ *    from the page, so the session cookie is set on the app origin
+ *
+ * Works with NextAuth v4 (`next-auth.session-token`) and Auth.js v5
+ * (`authjs.session-token`) session cookies.
+ */
+export class NextAuthProvider extends BaseAuthProvider {
+  /** Registry entry for the "nextauth" provider type */
+  static readonly definition: ProviderDefinition = {
+    validate: (config, userName) => NextAuthProvider.validate(config, userName),
+    create: (config, userName) =>
+      new NextAuthProvider(
+        config.nextAuth ?? {},
+        resolveTestUser(config, userName)
+      ),
+  };
+
+  protected readonly name = "NextAuth";
+  private config: NextAuthConfig;
+  private testUser: TestUser;
+
+  private constructor(config: NextAuthConfig, testUser: TestUser) {
+    super();
+    this.config = config;
+    this.testUser = testUser;
+  }
+
+  /**
+   * Create a NextAuthProvider from a configuration file.
+   * Loads, validates, and returns a ready-to-use provider.
+   *
+   * @param configPath - Path to playwright.env.json
+   * @param userName - Named user from "testUsers" (default: "testUser")
+   */
+  static fromConfigFile(
+    configPath: string,
+    userName?: string
+  ): NextAuthProvider {
+    return NextAuthProvider.fromConfig(loadConfigFile(configPath), userName);
+  }
+
+  /**
+   * Create a NextAuthProvider from an in-memory configuration object.
+   * Validates and returns a ready-to-use provider.
+   *
+   * @param config - Parsed configuration
+   * @param userName - Named user from "testUsers" (default: "testUser")
+   */
+  static fromConfig(
+    config: PlaywrightAuthConfig,
+    userName?: string
+  ): NextAuthProvider {
+    // Validate provider type
+    if (config.provider !== "nextauth") {
+      throw new Error(
+        `Invalid provider: expected "nextauth", got "${config.provider}"`
+      );
+    }
+
+    // Validate the whole config, including NextAuth-specific rules
+    validateConfig(config, NextAuthProvider.validate(config, userName));
+
+    return NextAuthProvider.definition.create(
+      config,
+      userName
+    ) as NextAuthProvider;
+  }
+
+  /**
+   * Collect NextAuth-specific configuration problems
+   */
+  private static validate(
+    config: PlaywrightAuthConfig,
+    userName?: string
+  ): ConfigIssue[] {
+    const userPath = testUserPath(userName);
+
+    try {
+      const testUser = resolveTestUser(config, userName);
+      if (Object.keys(getCredentials(testUser)).length === 0) {
+        return [
+          {
+            path: `$.${userPath}`,
+            message: `NextAuth authentication requires "${userPath}.credentials" or "${userPath}.email" and "${userPath}.password"`,
+          },
+        ];
+      }
+    } catch (error) {
+      return [{ path: `$.${userPath}`, message: (error as Error).message }];
+    }
+
+    return [];
+  }
+
+  /**
+   * Sign in through the credentials provider.
+   * Console logging, navigation and the final reload are handled by
+   * BaseAuthProvider.signIn().
+   */
+  protected async authenticate(page: Page): Promise<void> {
+    console.log("[NextAuth] Executing credentials sign in...");
+    const result = await signInWithCredentials(
+      page,
+      getCredentials(this.testUser),
+      this.config
+    );
+
+    if (!result.success) {
+      throw new Error(`NextAuth sign in failed: ${result.error}`);
+    }
+  }
+
+  /**
+   * Check that the session cookie was set
+   */
+  protected async isAuthenticated(page: Page): Promise<boolean> {
+    const cookies = await page.context().cookies();
+    return findSessionCookies(cookies, this.config.cookieName).length > 0;
+  }
+
+  /**
+   * Read the session cookie from a saved storage state.
+   * The cookie value (a JWT or database session id) is returned as the
+   * access token, with the cookie's expiry.
+   */
+  readStoredSession(state: StorageState): StoredSession | undefined {
+    const cookies = findSessionCookies(
+      state.cookies ?? [],
+      this.config.cookieName
+    ).sort((a, b) => a.name.localeCompare(b.name, "en", { numeric: true }));
+    if (cookies.length === 0) {
+      return undefined;
+    }
+
+    const expires = cookies[0].expires;
+    return {
+      accessToken: cookies.map((cookie) => cookie.value).join(""),
+      expiresAt: expires > 0 ? expires * 1000 : undefined,
+    };
+  }
+}
@@ -0,0 +1,88 @@
+import { Auth0Provider } from "./auth0.js";
+import type { AuthProvider } from "./base.js";
+import { FirebaseProvider } from "./firebase.js";
+import { NextAuthProvider } from "./nextauth.js";
+import { SupabaseProvider } from "./supabase.js";
+import type { ConfigIssue } from "../utils/config-validator.js";
+import type { PlaywrightAuthConfig } from "../types.js";
+
+/**
+ * How to validate and create a provider registered under a name.
+ * The name is matched against the "provider" field of the configuration.
+ */
+export interface ProviderDefinition {
+  /**
+   * Collect provider-specific configuration problems, e.g. a missing
+   * config section. Reported together with the JSON Schema problems.
+   */
+  validate?: (config: PlaywrightAuthConfig, userName?: string) => ConfigIssue[];
+
+  /**
+   * Create the provider. Only called once the configuration is valid.
+   */
+  create: (config: PlaywrightAuthConfig, userName?: string) => AuthProvider;
+
+  /**
+   * Whether the provider creates missing test users on sign-in and deletes
+   * them in cleanup(). Derived per-worker users (`authPerWorker`) require it.
+   */
+  provisionsUsers?: (config: PlaywrightAuthConfig) => boolean;
+}
+
+const providers = new Map<string, ProviderDefinition>([
+  ["firebase", FirebaseProvider.definition],
+  ["supabase", SupabaseProvider.definition],
+  ["auth0", Auth0Provider.definition],
+  ["nextauth", NextAuthProvider.definition],
+]);
+
+/**
+ * Register a provider so that configurations with `"provider": name`
+ * work with authSetup, the fixtures and createProviderFromConfig().
+ *
+ * @throws Error if a provider is already registered under the name
+ *
+ * @example
+ * ```typescript
+ * import { registerProvider } from 'playwright-nextjs-auth';
+ *
+ * registerProvider('sso', {
+ *   validate: (config) =>
+ *     config.sso ? [] : [{ path: '$.sso', message: 'SSO provider requires "sso" configuration' }],
+ *   create: (config, userName) => new SsoProvider(config.sso as SsoConfig, userName),
+ * });
+ * ```
+ */
+export function registerProvider(
+  name: string,
+  definition: ProviderDefinition
+): void {
+  if (providers.has(name)) {
+    throw new Error(`Provider "${name}" is already registered`);
+  }
+
+  providers.set(name, definition);
+}
+
+/**
+ * Get the names of all registered providers
+ */
+export function getRegisteredProviders(): string[] {
+  return [...providers.keys()];
+}
+
+/**
+ * Look up a registered provider
+ *
+ * @throws Error if no provider is registered under the name
+ */
+export function getProviderDefinition(name: string): ProviderDefinition {
+  const definition = providers.get(name);
+  if (!definition) {
+    throw new Error(
+      `Unknown provider: ${name}. Supported: ${getRegisteredProviders().join(", ")}`
+    );
+  }
+
+  return definition;
+}
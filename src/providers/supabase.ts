@@ -1,26 +1,163 @@
 import type { Page } from "@playwright/test";
-import * as fs from "fs";
-import * as path from "path";
-import type { AuthProvider } from "./base.js";
-import type { SupabaseConfig, TestUser, PlaywrightAuthConfig } from "../types.js";
+import { BaseAuthProvider } from "./base.js";
+import type { ProviderDefinition } from "./registry.js";
+import {
+  loadConfigFile,
+  resolveTestUser,
+  testUserPath,
+} from "../utils/config-loader.js";
+import {
+  validateConfig,
+  type ConfigIssue,
+} from "../utils/config-validator.js";
+import {
+  buildStorageState,
+  findLocalStorageItem,
+  setLocalStorageItem,
+} from "../utils/storage-state.js";
+import { generateTotp } from "../utils/totp.js";
+import type {
+  SupabaseConfig,
+  TestUser,
+  PlaywrightAuthConfig,
+  StorageState,
+  StoredSession,
+} from "../types.js";
+
+// @supabase/ssr cookie encoding
+const COOKIE_BASE64_PREFIX = "base64-";
+const COOKIE_MAX_CHUNK_SIZE = 3180;
+const COOKIE_MAX_AGE_SECONDS = 400 * 24 * 60 * 60;
+
+// GoTrue admin API page size when looking users up by email
+const ADMIN_USERS_PAGE_SIZE = 1000;
+
+// app_metadata marker on users created by provisioning; cleanup() deletes
+// only marked users
+const PROVISIONED_KEY = "provisioned_by";
+const PROVISIONED_BY = "playwright-nextjs-auth";
+
+// Verification tokens returned by the admin generate_link endpoint
+interface GeneratedLink {
+  hashed_token?: string;
+  email_otp?: string;
+}
+
+// User as returned by the admin users endpoint
+interface AdminUser {
+  id: string;
+  email?: string;
+  app_metadata?: Record<string, unknown>;
+}
+
+// MFA factor as listed on the user object
+interface SupabaseFactor {
+  id: string;
+  factor_type: string;
+  status: string;
+}
+
+interface SupabaseSession {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  expiresAt: number;
+  user: Record<string, unknown>;
+}
+
+/**
+ * Encode a session the way @supabase/ssr writes its auth cookie:
+ * "base64-" + base64url(JSON), split into "<key>.0", "<key>.1", ...
+ * when the value exceeds the maximum cookie chunk size.
+ */
+export function encodeSessionCookies(
+  storageKey: string,
+  sessionJson: string
+): Array<{ name: string; value: string }> {
+  const value =
+    COOKIE_BASE64_PREFIX + Buffer.from(sessionJson).toString("base64url");
+
+  if (value.length <= COOKIE_MAX_CHUNK_SIZE) {
+    return [{ name: storageKey, value }];
+  }
+
+  const chunks: Array<{ name: string; value: string }> = [];
+  for (let i = 0; i * COOKIE_MAX_CHUNK_SIZE < value.length; i++) {
+    chunks.push({
+      name: `${storageKey}.${i}`,
+      value: value.slice(
+        i * COOKIE_MAX_CHUNK_SIZE,
+        (i + 1) * COOKIE_MAX_CHUNK_SIZE
+      ),
+    });
+  }
+  return chunks;
+}
+
+/**
+ * Reassemble and decode an @supabase/ssr auth cookie.
+ * Returns the session JSON, or undefined if the cookie is missing.
+ */
+export function decodeSessionCookies(
+  storageKey: string,
+  cookies: Array<{ name: string; value: string }>
+): string | undefined {
+  let value = cookies.find((cookie) => cookie.name === storageKey)?.value;
+
+  if (value === undefined) {
+    const chunks: string[] = [];
+    for (let i = 0; ; i++) {
+      const chunk = cookies.find(
+        (cookie) => cookie.name === `${storageKey}.${i}`
+      );
+      if (!chunk) break;
+      chunks.push(chunk.value);
+    }
+    if (chunks.length === 0) {
+      return undefined;
+    }
+    value = chunks.join("");
+  }
+
+  if (value.startsWith(COOKIE_BASE64_PREFIX)) {
+    return Buffer.from(
+      value.slice(COOKIE_BASE64_PREFIX.length),
+      "base64url"
+    ).toString("utf-8");
+  }
+
+  // Older @supabase/ssr versions store plain (URI-encoded) JSON
+  return decodeURIComponent(value);
+}
 
 /**
  * Supabase Authentication Provider using API strategy.
  *
  * This provider:
  * 1. Authenticates via Supabase REST API (Node.js side)
- * 2. Injects session tokens into browser localStorage
+ * 2. Injects session tokens into browser localStorage, or into
+ *    @supabase/ssr auth cookies with `sessionStorage: "cookie"`
  *
  * Unlike Firebase, Supabase doesn't require CDN injection because:
  * - Auth state is stored in localStorage (not IndexedDB)
  * - Token format is simple and well-documented
  * - No SDK initialization conflicts
  */
-export class SupabaseProvider implements AuthProvider {
+export class SupabaseProvider extends BaseAuthProvider {
+  /** Registry entry for the "supabase" provider type */
+  static readonly definition: ProviderDefinition = {
+    validate: (config, userName) => SupabaseProvider.validate(config, userName),
+    create: (config, userName) =>
+      new SupabaseProvider(config.supabase!, resolveTestUser(config, userName)),
+    provisionsUsers: (config) => config.supabase?.provision === true,
+  };
+
+  protected readonly name = "Supabase";
   private config: SupabaseConfig;
   private testUser: TestUser;
 
   private constructor(config: SupabaseConfig, testUser: TestUser) {
+    super();
     this.config = config;
     this.testUser = testUser;
   }
@@ -28,216 +165,693 @@ export class SupabaseProvider implements AuthProvider {
   /**
    * Create a SupabaseProvider from a configuration file.
    * Loads, validates, and returns a ready-to-use provider.
+   *
+   * @param configPath - Path to playwright.env.json
+   * @param userName - Named user from "testUsers" (default: "testUser")
    */
-  static fromConfigFile(configPath: string): SupabaseProvider {
-    const absolutePath = path.isAbsolute(configPath)
-      ? configPath
-      : path.resolve(process.cwd(), configPath);
+  static fromConfigFile(
+    configPath: string,
+    userName?: string
+  ): SupabaseProvider {
+    return SupabaseProvider.fromConfig(loadConfigFile(configPath), userName);
+  }
 
-    if (!fs.existsSync(absolutePath)) {
+  /**
+   * Create a SupabaseProvider from an in-memory configuration object.
+   * Validates and returns a ready-to-use provider.
+   *
+   * @param config - Parsed configuration
+   * @param userName - Named user from "testUsers" (default: "testUser")
+   */
+  static fromConfig(
+    config: PlaywrightAuthConfig,
+    userName?: string
+  ): SupabaseProvider {
+    // Validate provider type
+    if (config.provider !== "supabase") {
       throw new Error(
-        `Configuration file not found: ${absolutePath}\n` +
-          `Please create the file from playwright.env.json.sample`
+        `Invalid provider: expected "supabase", got "${config.provider}"`
       );
     }
 
-    const content = fs.readFileSync(absolutePath, "utf-8");
-    let rawConfig: PlaywrightAuthConfig;
+    // Validate the whole config, including Supabase-specific rules
+    validateConfig(config, SupabaseProvider.validate(config, userName));
+
+    return SupabaseProvider.definition.create(
+      config,
+      userName
+    ) as SupabaseProvider;
+  }
+
+  /**
+   * Collect Supabase-specific configuration problems
+   */
+  private static validate(
+    config: PlaywrightAuthConfig,
+    userName?: string
+  ): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+    const userPath = testUserPath(userName);
+
+    const strategy = config.supabase?.strategy ?? "password";
 
     try {
-      rawConfig = JSON.parse(content);
-    } catch {
-      throw new Error(
-        `Failed to parse configuration file: ${absolutePath}\n` +
-          `Please ensure the file contains valid JSON`
-      );
+      const testUser = resolveTestUser(config, userName);
+      if (strategy === "password" && (!testUser.email || !testUser.password)) {
+        issues.push({
+          path: `$.${userPath}`,
+          message: `Supabase authentication requires "${userPath}.email" and "${userPath}.password"`,
+        });
+      } else if (!testUser.email) {
+        issues.push({
+          path: `$.${userPath}.email`,
+          message: `Supabase ${strategy} sign-in requires "${userPath}.email"`,
+        });
+      }
+    } catch (error) {
+      issues.push({ path: `$.${userPath}`, message: (error as Error).message });
     }
 
-    // Validate provider type
-    if (rawConfig.provider !== "supabase") {
-      throw new Error(
-        `Invalid provider: expected "supabase", got "${rawConfig.provider}"`
-      );
+    if (!config.supabase) {
+      issues.push({
+        path: "$.supabase",
+        message: 'Supabase provider requires "supabase" configuration',
+      });
+      return issues;
     }
 
-    // Validate Supabase config
-    SupabaseProvider.validate(rawConfig);
+    if (!config.supabase.serviceRoleKey) {
+      if (strategy !== "password") {
+        issues.push({
+          path: "$.supabase.serviceRoleKey",
+          message: `Supabase configuration requires "serviceRoleKey" when strategy is "${strategy}"`,
+        });
+      } else if (config.supabase.provision) {
+        issues.push({
+          path: "$.supabase.serviceRoleKey",
+          message:
+            'Supabase configuration requires "serviceRoleKey" when "provision" is enabled',
+        });
+      }
+    }
 
-    return new SupabaseProvider(rawConfig.supabase!, rawConfig.testUser);
+    return issues;
   }
 
   /**
-   * Validate Supabase-specific configuration
+   * Authenticate via Supabase REST API
    */
-  private static validate(config: PlaywrightAuthConfig): void {
-    if (!config.testUser) {
-      throw new Error('Configuration must specify "testUser" field');
-    }
+  private async authenticateViaAPI(): Promise<SupabaseSession> {
+    const { email, password } = this.testUser;
 
-    if (!config.supabase) {
-      throw new Error('Supabase provider requires "supabase" configuration');
+    if (!email || !password) {
+      throw new Error(
+        "Supabase authentication requires testUser.email and testUser.password"
+      );
     }
 
-    if (!config.supabase.url) {
-      throw new Error('Supabase configuration requires "url"');
-    }
+    return this.requestToken(
+      "password",
+      { email, password },
+      "Supabase authentication failed"
+    );
+  }
 
-    if (!config.supabase.anonKey) {
-      throw new Error('Supabase configuration requires "anonKey"');
+  /**
+   * Sign in without a password: mint a magic link with the admin
+   * generate_link endpoint, then verify its token_hash (or email OTP)
+   * through /auth/v1/verify
+   */
+  private async authenticateViaLink(
+    strategy: "magiclink" | "otp"
+  ): Promise<SupabaseSession> {
+    const { email } = this.testUser;
+    if (!email) {
+      throw new Error(`Supabase ${strategy} sign-in requires testUser.email`);
     }
 
-    if (!config.testUser.email || !config.testUser.password) {
+    // Older GoTrue versions nest the link under "properties"
+    const link = await this.adminRequest<
+      GeneratedLink & { properties?: GeneratedLink }
+    >(
+      "/generate_link",
+      { method: "POST", body: { type: "magiclink", email } },
+      "Supabase generate_link failed"
+    );
+    const { hashed_token, email_otp } = link.properties ?? link;
+
+    const body =
+      strategy === "otp"
+        ? { type: "email", email, token: email_otp }
+        : { type: "magiclink", token_hash: hashed_token };
+    if (!body.token && !body.token_hash) {
       throw new Error(
-        'Supabase authentication requires "testUser.email" and "testUser.password"'
+        `Supabase generate_link returned no ${strategy === "otp" ? "email_otp" : "hashed_token"}`
       );
     }
+
+    return this.postForSession(
+      "/verify",
+      body,
+      `Supabase ${strategy} verification failed`
+    );
   }
 
   /**
-   * Authenticate via Supabase REST API
+   * Exchange credentials or a refresh token for a session via the
+   * GoTrue token endpoint
    */
-  private async authenticateViaAPI(): Promise<{
-    accessToken: string;
-    refreshToken: string;
-    expiresIn: number;
-    expiresAt: number;
-    user: Record<string, unknown>;
-  }> {
-    const { email, password } = this.testUser;
+  private async requestToken(
+    grantType: "password" | "refresh_token",
+    body: Record<string, string>,
+    errorMessage: string
+  ): Promise<SupabaseSession> {
+    return this.postForSession(
+      `/token?grant_type=${grantType}`,
+      body,
+      errorMessage
+    );
+  }
 
-    if (!email || !password) {
+  /**
+   * Upgrade an aal1 session to aal2 by verifying the user's TOTP factor:
+   * list factors, create a challenge, and verify a locally computed code
+   */
+  private async verifyMfa(
+    session: SupabaseSession,
+    totpSecret: string
+  ): Promise<SupabaseSession> {
+    const factors = (session.user.factors ?? []) as SupabaseFactor[];
+    const factor = factors.find(
+      (factor) => factor.factor_type === "totp" && factor.status === "verified"
+    );
+    if (!factor) {
       throw new Error(
-        "Supabase authentication requires testUser.email and testUser.password"
+        `Supabase MFA failed: user ${session.user.email} has no verified TOTP factor`
       );
     }
 
-    const authUrl = `${this.config.url}/auth/v1/token?grant_type=password`;
+    const challenge = await this.postJson<{ id: string }>(
+      `/factors/${factor.id}/challenge`,
+      {},
+      "Supabase MFA challenge failed",
+      session.accessToken
+    );
+
+    return this.postForSession(
+      `/factors/${factor.id}/verify`,
+      { challenge_id: challenge.id, code: generateTotp(totpSecret) },
+      "Supabase MFA verification failed",
+      session.accessToken
+    );
+  }
+
+  /**
+   * POST to a GoTrue endpoint that answers with a session
+   *
+   * @param accessToken - Bearer token for user endpoints (e.g. MFA)
+   */
+  private async postForSession(
+    path: string,
+    body: Record<string, string | undefined>,
+    errorMessage: string,
+    accessToken?: string
+  ): Promise<SupabaseSession> {
+    const data = await this.postJson<{
+      access_token: string;
+      refresh_token: string;
+      expires_in: number;
+      expires_at?: number;
+      user: Record<string, unknown>;
+    }>(path, body, errorMessage, accessToken);
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresIn: data.expires_in,
+      // The MFA verify endpoint only returns expires_in
+      expiresAt:
+        data.expires_at ?? Math.floor(Date.now() / 1000) + data.expires_in,
+      user: data.user,
+    };
+  }
+
+  /**
+   * POST JSON to a GoTrue endpoint with the anon key
+   */
+  private async postJson<T>(
+    path: string,
+    body: Record<string, string | undefined>,
+    errorMessage: string,
+    accessToken?: string
+  ): Promise<T> {
+    const authUrl = `${this.config.url}/auth/v1${path}`;
 
     const response = await fetch(authUrl, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
         apikey: this.config.anonKey,
+        ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
       },
-      body: JSON.stringify({
-        email,
-        password,
-      }),
+      body: JSON.stringify(body),
     });
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Supabase authentication failed: ${response.status} - ${error}`);
+      throw new Error(`${errorMessage}: ${response.status} - ${error}`);
     }
 
-    const data = (await response.json()) as {
-      access_token: string;
-      refresh_token: string;
-      expires_in: number;
-      expires_at: number;
-      user: Record<string, unknown>;
-    };
+    return (await response.json()) as T;
+  }
 
-    return {
-      accessToken: data.access_token,
-      refreshToken: data.refresh_token,
-      expiresIn: data.expires_in,
-      expiresAt: data.expires_at,
-      user: data.user,
-    };
+  /**
+   * Call the GoTrue admin API with the service role key
+   */
+  private async adminRequest<T>(
+    path: string,
+    init: { method?: string; body?: unknown },
+    errorMessage: string
+  ): Promise<T> {
+    const serviceRoleKey = this.config.serviceRoleKey;
+    if (!serviceRoleKey) {
+      throw new Error(`${errorMessage}: "supabase.serviceRoleKey" is not set`);
+    }
+
+    const response = await fetch(`${this.config.url}/auth/v1/admin${path}`, {
+      method: init.method ?? "GET",
+      headers: {
+        "Content-Type": "application/json",
+        apikey: serviceRoleKey,
+        Authorization: `Bearer ${serviceRoleKey}`,
+      },
+      body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`${errorMessage}: ${response.status} - ${error}`);
+    }
+
+    return (await response.json().catch(() => ({}))) as T;
   }
 
   /**
-   * Extract project ref from Supabase URL
-   * e.g., "https://xyz.supabase.co" -> "xyz"
+   * Look up the test user by email through the admin API
+   *
+   * @returns The user, or undefined if no user has the email
    */
-  private getProjectRef(): string {
-    const url = new URL(this.config.url);
-    const hostname = url.hostname;
+  private async findUser(email: string): Promise<AdminUser | undefined> {
+    for (let page = 1; ; page++) {
+      const { users = [] } = await this.adminRequest<{
+        users?: AdminUser[];
+      }>(
+        `/users?page=${page}&per_page=${ADMIN_USERS_PAGE_SIZE}`,
+        {},
+        "Supabase user lookup failed"
+      );
 
-    // Handle standard Supabase URLs (xyz.supabase.co)
-    if (hostname.endsWith(".supabase.co")) {
-      return hostname.replace(".supabase.co", "");
+      const user = users.find(
+        (user) => user.email?.toLowerCase() === email.toLowerCase()
+      );
+      if (user) {
+        return user;
+      }
+      if (users.length < ADMIN_USERS_PAGE_SIZE) {
+        return undefined;
+      }
     }
+  }
 
-    // Handle self-hosted or custom domains
-    // Use full hostname as ref
-    return hostname.replace(/\./g, "-");
+  /**
+   * Create the test user (auto-confirmed) if it does not exist yet, marked
+   * with the PROVISIONED_KEY app_metadata marker
+   */
+  private async provisionUser(): Promise<void> {
+    const { email, password, appMetadata, userMetadata } = this.testUser;
+    if (!email) {
+      throw new Error(
+        "Supabase provisioning requires testUser.email to be set"
+      );
+    }
+
+    const existing = await this.findUser(email);
+    if (existing) {
+      console.log("[Supabase] Using existing user:", existing.id);
+      return;
+    }
+
+    const user = await this.adminRequest<{ id: string }>(
+      "/users",
+      {
+        method: "POST",
+        body: {
+          email,
+          password,
+          email_confirm: true,
+          app_metadata: { ...appMetadata, [PROVISIONED_KEY]: PROVISIONED_BY },
+          user_metadata: userMetadata,
+        },
+      },
+      "Supabase user provisioning failed"
+    );
+    console.log("[Supabase] Provisioned user:", user.id);
   }
 
   /**
-   * Inject Supabase session into browser localStorage
+   * Get the localStorage key supabase-js stores the session under.
+   *
+   * Mirrors supabase-js, which uses the first hostname label:
+   * - "https://xyz.supabase.co" -> "sb-xyz-auth-token"
+   * - "http://127.0.0.1:54321" -> "sb-127-auth-token"
+   * - "http://localhost:54321" -> "sb-localhost-auth-token"
    */
-  private async injectSession(
-    page: Page,
-    session: {
-      accessToken: string;
-      refreshToken: string;
-      expiresIn: number;
-      expiresAt: number;
-      user: Record<string, unknown>;
+  private getStorageKey(): string {
+    if (this.config.storageKey) {
+      return this.config.storageKey;
     }
-  ): Promise<void> {
-    const projectRef = this.getProjectRef();
-    const storageKey = `sb-${projectRef}-auth-token`;
 
-    // Supabase stores session in this format
-    const sessionData = {
+    const hostname = new URL(this.config.url).hostname;
+    return `sb-${hostname.split(".")[0]}-auth-token`;
+  }
+
+  /**
+   * Serialize a session in the format supabase-js stores it
+   */
+  private serializeSession(session: SupabaseSession): string {
+    return JSON.stringify({
       access_token: session.accessToken,
       refresh_token: session.refreshToken,
       expires_in: session.expiresIn,
       expires_at: session.expiresAt,
       token_type: "bearer",
       user: session.user,
-    };
+    });
+  }
+
+  /**
+   * Inject Supabase session into browser localStorage
+   */
+  private async injectSession(
+    page: Page,
+    session: SupabaseSession
+  ): Promise<void> {
+    const storageKey = this.getStorageKey();
 
     await page.evaluate(
-      ({ key, data }) => {
-        localStorage.setItem(key, JSON.stringify(data));
+      ({ key, value }) => {
+        localStorage.setItem(key, value);
         console.log("[SUPABASE] Session injected into localStorage:", key);
       },
-      { key: storageKey, data: sessionData }
+      { key: storageKey, value: this.serializeSession(session) }
     );
   }
 
   /**
-   * Main sign-in flow
+   * Inject Supabase session as @supabase/ssr auth cookies.
+   * Cookies are added through the browser context so they are included
+   * in the saved storage state.
    */
-  async signIn(page: Page): Promise<void> {
-    console.log("[Supabase] Starting authentication...");
+  private async injectSessionCookies(
+    page: Page,
+    session: SupabaseSession
+  ): Promise<void> {
+    const storageKey = this.getStorageKey();
+    const { hostname, protocol } = new URL(page.url());
+    const expires = Math.floor(Date.now() / 1000) + COOKIE_MAX_AGE_SECONDS;
 
-    // 1. Authenticate via API
-    console.log("[Supabase] Authenticating via REST API...");
-    const session = await this.authenticateViaAPI();
-    console.log("[Supabase] API authentication successful, user:", session.user.email);
+    const cookies = encodeSessionCookies(
+      storageKey,
+      this.serializeSession(session)
+    );
 
-    // 2. Setup browser console logging
-    page.on("console", (msg) => {
-      console.log(`[BROWSER] ${msg.type()}: ${msg.text()}`);
+    // Remove stale chunks/unchunked cookies from a previous session
+    const escapedKey = storageKey.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    await page.context().clearCookies({
+      name: new RegExp(`^${escapedKey}(\\.\\d+)?$`),
     });
+    await page.context().addCookies(
+      cookies.map((cookie) => ({
+        ...cookie,
+        domain: hostname,
+        path: "/",
+        expires,
+        httpOnly: false,
+        secure: protocol === "https:",
+        sameSite: "Lax" as const,
+      }))
+    );
+
+    console.log(
+      `[Supabase] Session injected into ${cookies.length} cookie(s):`,
+      storageKey
+    );
+  }
+
+  /**
+   * Sign in via the REST API: create the user if needed, authenticate with
+   * the configured strategy and upgrade to aal2 with MFA
+   */
+  private async createSession(): Promise<SupabaseSession> {
+    // 1. Create the user if missing (optional)
+    if (this.config.provision) {
+      await this.provisionUser();
+    }
+
+    // 2. Authenticate via API
+    const strategy = this.config.strategy ?? "password";
+    console.log(`[Supabase] Authenticating via REST API (${strategy})...`);
+    let session =
+      strategy === "password"
+        ? await this.authenticateViaAPI()
+        : await this.authenticateViaLink(strategy);
+    console.log(
+      "[Supabase] API authentication successful, user:",
+      session.user.email
+    );
+
+    // 3. Upgrade to aal2 with the TOTP factor (optional)
+    if (this.testUser.mfa) {
+      console.log("[Supabase] Verifying TOTP factor...");
+      session = await this.verifyMfa(session, this.testUser.mfa.totpSecret);
+      console.log("[Supabase] MFA verification successful (aal2)");
+    }
+
+    return session;
+  }
 
-    // 3. Navigate to the app (required to set localStorage on correct origin)
-    await page.goto("/", { waitUntil: "networkidle" });
+  /**
+   * Sign in via the REST API and inject the session.
+   * Console logging, navigation and the final reload are handled by
+   * BaseAuthProvider.signIn().
+   */
+  protected async authenticate(page: Page): Promise<void> {
+    const session = await this.createSession();
 
-    // 4. Inject session into localStorage
+    // Inject session into localStorage or cookies
     console.log("[Supabase] Injecting session into browser...");
-    await this.injectSession(page, session);
+    if (this.config.sessionStorage === "cookie") {
+      await this.injectSessionCookies(page, session);
+    } else {
+      await this.injectSession(page, session);
+    }
+  }
+
+  /**
+   * Sign in via the REST API and build the storage state with the session
+   * in localStorage (or @supabase/ssr cookies) for `baseURL`
+   */
+  async createStorageState(baseURL: string): Promise<StorageState> {
+    const session = await this.createSession();
+    const storageKey = this.getStorageKey();
+    const value = this.serializeSession(session);
+
+    if (this.config.sessionStorage === "cookie") {
+      const expires = Math.floor(Date.now() / 1000) + COOKIE_MAX_AGE_SECONDS;
+      return buildStorageState(
+        baseURL,
+        [],
+        encodeSessionCookies(storageKey, value).map((cookie) => ({
+          ...cookie,
+          expires,
+        }))
+      );
+    }
+
+    return buildStorageState(baseURL, [{ name: storageKey, value }], []);
+  }
 
-    // 5. Reload to apply session
-    await page.reload({ waitUntil: "networkidle" });
+  /**
+   * Check that the session survived the reload
+   */
+  protected async isAuthenticated(page: Page): Promise<boolean> {
+    const storageKey = this.getStorageKey();
 
-    // 6. Verify localStorage state
-    const projectRef = this.getProjectRef();
-    const storageKey = `sb-${projectRef}-auth-token`;
+    if (this.config.sessionStorage === "cookie") {
+      const cookies = await page.context().cookies();
+      return decodeSessionCookies(storageKey, cookies) !== undefined;
+    }
 
     const storedSession = await page.evaluate((key) => {
       return localStorage.getItem(key);
     }, storageKey);
+    return storedSession !== null;
+  }
 
-    if (!storedSession) {
-      throw new Error("Supabase session was not persisted in localStorage");
+  /**
+   * Read the Supabase session from the saved localStorage or cookie state.
+   * Supabase stores `expires_at` in seconds.
+   */
+  readStoredSession(state: StorageState): StoredSession | undefined {
+    const storageKey = this.getStorageKey();
+    const value =
+      this.config.sessionStorage === "cookie"
+        ? decodeSessionCookies(storageKey, state.cookies ?? [])
+        : findLocalStorageItem(state, storageKey);
+    if (!value) {
+      return undefined;
     }
 
-    console.log("[Supabase] Authentication complete");
+    let session: {
+      access_token?: string;
+      refresh_token?: string;
+      expires_at?: number;
+    };
+    try {
+      session = JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+
+    if (!session.access_token) {
+      return undefined;
+    }
+
+    return {
+      accessToken: session.access_token,
+      refreshToken: session.refresh_token,
+      expiresAt:
+        session.expires_at !== undefined
+          ? session.expires_at * 1000
+          : undefined,
+    };
+  }
+
+  /**
+   * Exchange the stored refresh token for a new session
+   * (grant_type=refresh_token) and write it back into the storage state.
+   */
+  async refreshStoredSession(state: StorageState): Promise<StorageState> {
+    const stored = this.readStoredSession(state);
+    if (!stored?.refreshToken) {
+      throw new Error("No Supabase refresh token found in storage state");
+    }
+
+    const session = await this.requestToken(
+      "refresh_token",
+      { refresh_token: stored.refreshToken },
+      "Supabase token refresh failed"
+    );
+
+    const storageKey = this.getStorageKey();
+    const value = this.serializeSession(session);
+    const refreshed = JSON.parse(JSON.stringify(state)) as StorageState;
+
+    if (this.config.sessionStorage === "cookie") {
+      const isSessionCookie = (name: string) =>
+        name === storageKey ||
+        (name.startsWith(`${storageKey}.`) &&
+          /^\d+$/.test(name.slice(storageKey.length + 1)));
+      const template = refreshed.cookies.find((cookie) =>
+        isSessionCookie(cookie.name)
+      );
+      if (!template) {
+        throw new Error("Supabase session cookie not found in storage state");
+      }
+
+      refreshed.cookies = [
+        ...refreshed.cookies.filter((cookie) => !isSessionCookie(cookie.name)),
+        ...encodeSessionCookies(storageKey, value).map((cookie) => ({
+          ...template,
+          ...cookie,
+        })),
+      ];
+    } else {
+      setLocalStorageItem(refreshed, storageKey, value);
+    }
+
+    return refreshed;
+  }
+
+  /**
+   * Revoke the session in a storage state through `/auth/v1/logout`
+   * (global scope: every refresh token of the user). An expired access
+   * token is refreshed first, since logout needs a valid one.
+   */
+  async revoke(state: StorageState): Promise<void> {
+    let stored = this.readStoredSession(state);
+    if (!stored) {
+      return;
+    }
+
+    if (
+      stored.expiresAt !== undefined &&
+      stored.expiresAt <= Date.now() &&
+      stored.refreshToken
+    ) {
+      stored = this.readStoredSession(await this.refreshStoredSession(state))!;
+    }
+
+    const response = await fetch(
+      `${this.config.url}/auth/v1/logout?scope=global`,
+      {
+        method: "POST",
+        headers: {
+          apikey: this.config.anonKey,
+          Authorization: `Bearer ${stored.accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(
+        `Supabase session revocation failed: ${response.status} - ${error}`
+      );
+    }
+    console.log("[Supabase] Revoked session");
+  }
+
+  /**
+   * Delete the test user through the admin API if provisioning created it.
+   * Does nothing unless `provision` is enabled; existing accounts without
+   * the PROVISIONED_KEY marker are kept.
+   *
+   * @returns Whether the user was deleted
+   */
+  async cleanup(): Promise<boolean> {
+    if (!this.config.provision || !this.testUser.email) {
+      return false;
+    }
+
+    const user = await this.findUser(this.testUser.email);
+    if (!user) {
+      return false;
+    }
+    if (user.app_metadata?.[PROVISIONED_KEY] !== PROVISIONED_BY) {
+      console.log(
+        "[Supabase] Keeping user not created by provisioning:",
+        user.id
+      );
+      return false;
+    }
+
+    await this.adminRequest(
+      `/users/${user.id}`,
+      { method: "DELETE" },
+      "Supabase user deletion failed"
+    );
+    console.log("[Supabase] Deleted provisioned user:", user.id);
+    return true;
   }
 }
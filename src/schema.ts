@@ -0,0 +1,388 @@
+import type { JsonSchema } from "./utils/config-validator.js";
+
+/**
+ * JSON Schema for playwright.env.json.
+ *
+ * Used to validate configurations at load time, and published as
+ * playwright.env.schema.json for editor autocompletion
+ * (regenerate with `npm run build:schema`).
+ */
+
+const testUserSchema: JsonSchema = {
+  title: "Test user",
+  type: "object",
+  properties: {
+    email: { type: "string", description: "User email address" },
+    password: {
+      type: "string",
+      description: "User password (for Supabase email/password auth)",
+    },
+    uid: {
+      type: "string",
+      description: "User UID (for Firebase custom token)",
+    },
+    tenantId: {
+      type: "string",
+      description:
+        "Identity Platform tenant of the user (overrides firebase.tenantId)",
+    },
+    credentials: {
+      type: "object",
+      additionalProperties: { type: "string" },
+      description:
+        'Fields posted to a NextAuth credentials provider (for the "nextauth" provider; default: email and password)',
+    },
+    claims: {
+      type: "object",
+      description:
+        'Firebase custom claims, e.g. { "role": "admin" } (developer claims, or persisted with firebase.persistClaims)',
+    },
+    displayName: {
+      type: "string",
+      description: "Display name for users created by firebase.provision",
+    },
+    emailVerified: {
+      type: "boolean",
+      default: false,
+      description:
+        "Email-verified flag for users created by firebase.provision",
+    },
+    appMetadata: {
+      type: "object",
+      description: "app_metadata for users created by supabase.provision",
+    },
+    mfa: {
+      title: "Test user mfa",
+      description:
+        "Supabase MFA: verify a TOTP factor after sign-in to get an aal2 session",
+      type: "object",
+      required: ["totpSecret"],
+      properties: {
+        totpSecret: {
+          type: "string",
+          minLength: 1,
+          description: "Base32 TOTP secret from factor enrollment",
+        },
+      },
+    },
+    userMetadata: {
+      type: "object",
+      description: "user_metadata for users created by supabase.provision",
+    },
+  },
+};
+
+const firebaseSchema: JsonSchema = {
+  title: "Firebase configuration",
+  type: "object",
+  required: ["clientConfig"],
+  properties: {
+    serviceAccount: {
+      title: "Firebase serviceAccount",
+      description:
+        "Admin SDK service account JSON (not required with the Auth Emulator)",
+      type: "object",
+      properties: {
+        type: { type: "string" },
+        project_id: { type: "string" },
+        private_key_id: { type: "string" },
+        private_key: { type: "string" },
+        client_email: { type: "string" },
+        client_id: { type: "string" },
+        auth_uri: { type: "string" },
+        token_uri: { type: "string" },
+        auth_provider_x509_cert_url: { type: "string" },
+        client_x509_cert_url: { type: "string" },
+        universe_domain: { type: "string" },
+      },
+    },
+    clientConfig: {
+      title: "Firebase clientConfig",
+      description: "Firebase web app config",
+      type: "object",
+      required: ["apiKey", "authDomain", "projectId"],
+      properties: {
+        apiKey: { type: "string" },
+        authDomain: { type: "string" },
+        projectId: { type: "string" },
+        storageBucket: { type: "string" },
+        messagingSenderId: { type: "string" },
+        appId: { type: "string" },
+      },
+    },
+    emulator: {
+      title: "Firebase emulator",
+      description:
+        "Use the Firebase Auth Emulator for both the Admin SDK and the browser SDK",
+      type: "object",
+      required: ["host"],
+      properties: {
+        host: {
+          type: "string",
+          minLength: 1,
+          description: 'Auth Emulator host, e.g. "127.0.0.1:9099"',
+        },
+      },
+    },
+    tenantId: {
+      type: "string",
+      description: "Identity Platform tenant test users belong to",
+    },
+    sessionCookie: {
+      title: "Firebase sessionCookie",
+      description:
+        "Add a session cookie created with createSessionCookie (for apps using verifySessionCookie)",
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          default: "__session",
+          description: "Cookie name",
+        },
+        domain: {
+          type: "string",
+          description: "Cookie domain (default: the app's hostname)",
+        },
+        maxAge: {
+          type: "integer",
+          default: 432000,
+          description: "Session lifetime in seconds (5 minutes to 2 weeks)",
+        },
+        indexedDB: {
+          type: "boolean",
+          default: false,
+          description:
+            "Also sign in the browser SDK so the user is persisted in IndexedDB",
+        },
+      },
+    },
+    persistClaims: {
+      type: "boolean",
+      default: false,
+      description:
+        "Persist testUser.claims with setCustomUserClaims instead of passing them as developer claims",
+    },
+    provision: {
+      type: "boolean",
+      default: false,
+      description:
+        "Look test users up by email and create missing ones (no uid needed); authTeardown() deletes the users it created",
+    },
+    sdk: {
+      title: "Firebase sdk",
+      description: "Browser SDK injection settings",
+      type: "object",
+      properties: {
+        source: {
+          type: "string",
+          enum: ["cdn", "local"],
+          default: "cdn",
+          description: "Where to load the compat SDK from",
+        },
+        version: {
+          type: "string",
+          default: "10.7.0",
+          description: "SDK version loaded from the CDN",
+        },
+        localPath: {
+          type: "string",
+          description:
+            "Directory containing firebase-app-compat.js and firebase-auth-compat.js",
+        },
+      },
+    },
+  },
+};
+
+const supabaseSchema: JsonSchema = {
+  title: "Supabase configuration",
+  type: "object",
+  required: ["url", "anonKey"],
+  properties: {
+    url: {
+      type: "string",
+      minLength: 1,
+      description: "Supabase project URL",
+    },
+    anonKey: {
+      type: "string",
+      minLength: 1,
+      description: "Supabase anon (public) key",
+    },
+    storageKey: {
+      type: "string",
+      description:
+        "localStorage key the app's client stores the session under (default: sb-<ref>-auth-token)",
+    },
+    sessionStorage: {
+      type: "string",
+      enum: ["localStorage", "cookie"],
+      default: "localStorage",
+      description:
+        'Where the app\'s client keeps the session; "cookie" for @supabase/ssr',
+    },
+    strategy: {
+      type: "string",
+      enum: ["password", "magiclink", "otp"],
+      default: "password",
+      description:
+        'Sign-in strategy; "magiclink" and "otp" mint a token with generate_link (requires serviceRoleKey)',
+    },
+    serviceRoleKey: {
+      type: "string",
+      minLength: 1,
+      description:
+        'Service role key for the admin API (for "provision" and the "magiclink" / "otp" strategies)',
+    },
+    provision: {
+      type: "boolean",
+      default: false,
+      description:
+        "Create missing test users with the admin API (requires serviceRoleKey); authTeardown() deletes the users it created",
+    },
+  },
+};
+
+const auth0Schema: JsonSchema = {
+  title: "Auth0 configuration",
+  type: "object",
+  required: ["domain", "clientId"],
+  properties: {
+    domain: {
+      type: "string",
+      minLength: 1,
+      description:
+        'Tenant domain, e.g. "my-tenant.us.auth0.com", or a full URL for a mock server',
+    },
+    clientId: {
+      type: "string",
+      minLength: 1,
+      description: "Application client ID",
+    },
+    clientSecret: {
+      type: "string",
+      description: "Client secret (confidential applications only)",
+    },
+    audience: {
+      type: "string",
+      description: "API audience to request an access token for",
+    },
+    scope: {
+      type: "string",
+      default: "openid profile email offline_access",
+      description: "Requested scopes",
+    },
+    realm: {
+      type: "string",
+      default: "Username-Password-Authentication",
+      description: "Database connection used for the password-realm grant",
+    },
+    sdk: {
+      type: "string",
+      enum: ["spa", "nextjs"],
+      default: "spa",
+      description:
+        '"spa" for @auth0/auth0-react (localStorage cache), "nextjs" for @auth0/nextjs-auth0',
+    },
+    nextjs: {
+      title: "Auth0 nextjs",
+      description: "@auth0/nextjs-auth0 session cookie settings",
+      type: "object",
+      required: ["secret"],
+      properties: {
+        secret: {
+          type: "string",
+          minLength: 1,
+          description: "The app's AUTH0_SECRET",
+        },
+        version: {
+          type: "integer",
+          enum: [3, 4],
+          default: 4,
+          description: "Major version of @auth0/nextjs-auth0",
+        },
+        cookieName: {
+          type: "string",
+          description:
+            'Session cookie name (default: "__session" for v4, "appSession" for v3)',
+        },
+      },
+    },
+  },
+};
+
+const nextAuthSchema: JsonSchema = {
+  title: "NextAuth configuration",
+  type: "object",
+  properties: {
+    enabled: {
+      type: "boolean",
+      description: "Enable NextAuth credentials sign-in after Firebase auth",
+    },
+    required: {
+      type: "boolean",
+      default: false,
+      description:
+        "Fail Firebase sign-in when the NextAuth session is not established",
+    },
+    callbackUrl: {
+      type: "string",
+      default: "/",
+      description: "Callback URL after sign-in",
+    },
+    basePath: {
+      type: "string",
+      default: "/api/auth",
+      description: "Path the NextAuth / Auth.js route handler is mounted on",
+    },
+    providerId: {
+      type: "string",
+      default: "credentials",
+      description: "Id of the credentials provider",
+    },
+    cookieName: {
+      type: "string",
+      description:
+        "Session cookie name (default: the NextAuth v4 and Auth.js v5 names)",
+    },
+  },
+};
+
+export const configSchema: JsonSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "Configuration",
+  description: "playwright-nextjs-auth configuration (playwright.env.json)",
+  type: "object",
+  required: ["provider"],
+  properties: {
+    $schema: { type: "string" },
+    _comment: { type: "string" },
+    baseURL: {
+      type: "string",
+      description: "Base URL of the application under test",
+    },
+    provider: {
+      type: "string",
+      minLength: 1,
+      examples: ["firebase", "supabase", "auth0", "nextauth"],
+      description:
+        "Authentication provider type (built-in, or added with registerProvider())",
+    },
+    testUser: {
+      ...testUserSchema,
+      description: "Default test user (saved to user.json)",
+    },
+    testUsers: {
+      title: "Test users",
+      description:
+        'Named test users keyed by role (each saved to <role>.json; letters, digits, ".", "_" and "-")',
+      type: "object",
+      propertyNames: { pattern: "^[A-Za-z0-9][A-Za-z0-9._-]*$" },
+      additionalProperties: testUserSchema,
+    },
+    firebase: firebaseSchema,
+    supabase: supabaseSchema,
+    auth0: auth0Schema,
+    nextAuth: nextAuthSchema,
+  },
+};
@@ -1,10 +1,25 @@
-import type { Page } from "@playwright/test";
+import type {
+  Browser,
+  BrowserContextOptions,
+  Cookie,
+  LaunchOptions,
+  Page,
+} from "@playwright/test";
 
 // =============================================================================
 // Provider Types
 // =============================================================================
 
-export type ProviderType = "firebase" | "supabase";
+/**
+ * Built-in provider types, or the name of a provider added with
+ * registerProvider()
+ */
+export type ProviderType =
+  | "firebase"
+  | "supabase"
+  | "auth0"
+  | "nextauth"
+  | (string & {});
 
 // =============================================================================
 // Test User Configuration
@@ -17,6 +32,37 @@ export interface TestUser {
   password?: string;
   /** User UID (for Firebase custom token) */
   uid?: string;
+  /** Identity Platform tenant of the user (overrides `firebase.tenantId`) */
+  tenantId?: string;
+  /**
+   * Fields posted to a NextAuth credentials provider (for the "nextauth"
+   * provider; default: `email` and `password`)
+   */
+  credentials?: Record<string, string>;
+  /**
+   * Firebase custom claims for the user, e.g. `{ "role": "admin" }`.
+   * Passed as developer claims in the custom token, or persisted with
+   * setCustomUserClaims when `firebase.persistClaims` is set.
+   */
+  claims?: Record<string, unknown>;
+  /** Display name for users created by Firebase `provision` */
+  displayName?: string;
+  /** Email-verified flag for users created by Firebase `provision` (default: false) */
+  emailVerified?: boolean;
+  /** `app_metadata` for users created by Supabase `provision` */
+  appMetadata?: Record<string, unknown>;
+  /** `user_metadata` for users created by Supabase `provision` */
+  userMetadata?: Record<string, unknown>;
+  /**
+   * Supabase MFA: after sign-in, verify the user's TOTP factor so the
+   * injected session is aal2
+   */
+  mfa?: TestUserMfa;
+}
+
+export interface TestUserMfa {
+  /** Base32 TOTP secret from enrollment (the `secret` of the enrolled factor) */
+  totpSecret: string;
 }
 
 // =============================================================================
@@ -46,9 +92,74 @@ export interface FirebaseClientConfig {
   appId?: string;
 }
 
+export interface FirebaseEmulatorConfig {
+  /** Auth Emulator host, e.g. "127.0.0.1:9099" */
+  host: string;
+}
+
+export interface FirebaseSdkConfig {
+  /**
+   * Where to load the compat SDK from (default: "cdn").
+   * "local" serves the bundles from disk, for offline CI or strict CSP.
+   */
+  source?: "cdn" | "local";
+  /** SDK version loaded from the CDN; match the app's firebase version (default: "10.7.0") */
+  version?: string;
+  /**
+   * Directory containing firebase-app-compat.js and firebase-auth-compat.js
+   * for the "local" source (default: the installed "firebase" package)
+   */
+  localPath?: string;
+}
+
+export interface FirebaseSessionCookieConfig {
+  /** Cookie name the server verifies with verifySessionCookie (default: "__session") */
+  name?: string;
+  /** Cookie domain (default: the app's hostname) */
+  domain?: string;
+  /** Session lifetime in seconds, 5 minutes to 2 weeks (default: 432000, 5 days) */
+  maxAge?: number;
+  /**
+   * Also sign in the browser SDK so the user is persisted in IndexedDB
+   * (default: false)
+   */
+  indexedDB?: boolean;
+}
+
 export interface FirebaseConfig {
-  serviceAccount: FirebaseServiceAccount;
+  /** Admin SDK service account (not required with the Auth Emulator) */
+  serviceAccount?: FirebaseServiceAccount;
   clientConfig: FirebaseClientConfig;
+  /**
+   * Use the Firebase Auth Emulator for both the Admin SDK and the browser SDK.
+   * Falls back to the FIREBASE_AUTH_EMULATOR_HOST environment variable.
+   */
+  emulator?: FirebaseEmulatorConfig;
+  /**
+   * Identity Platform tenant test users belong to. Custom tokens are minted
+   * with the tenant's Admin auth and `auth.tenantId` is set in the browser.
+   */
+  tenantId?: string;
+  /** Browser SDK injection settings */
+  sdk?: FirebaseSdkConfig;
+  /**
+   * Session-cookie mode for server-rendered apps: exchange the custom token
+   * for an ID token and add a session cookie created with createSessionCookie
+   */
+  sessionCookie?: FirebaseSessionCookieConfig;
+  /**
+   * Persist `testUser.claims` on the user record with setCustomUserClaims
+   * (replacing existing claims) instead of passing them as developer claims
+   * (default: false)
+   */
+  persistClaims?: boolean;
+  /**
+   * Look test users up by email with the Admin SDK and create missing ones
+   * (with displayName, emailVerified, password and claims), so `uid` is not
+   * needed. authTeardown() deletes the users it created; reused existing
+   * accounts are kept. (default: false)
+   */
+  provision?: boolean;
 }
 
 // =============================================================================
@@ -58,6 +169,76 @@ export interface FirebaseConfig {
 export interface SupabaseConfig {
   url: string;
   anonKey: string;
+  /**
+   * localStorage key the app's client stores the session under.
+   * Set this if the app passes a custom `auth.storageKey` to createClient.
+   * (default: "sb-<first hostname label>-auth-token", as supabase-js derives it)
+   */
+  storageKey?: string;
+  /**
+   * Where the app's client keeps the session (default: "localStorage").
+   * Use "cookie" for apps built on @supabase/ssr (e.g. Next.js App Router).
+   */
+  sessionStorage?: "localStorage" | "cookie";
+  /**
+   * How the test user signs in (default: "password"):
+   * - "password": email/password grant
+   * - "magiclink": verify the token_hash of a magic link minted with the
+   *   admin generate_link endpoint
+   * - "otp": verify the email OTP minted with generate_link
+   * "magiclink" and "otp" need no password but require `serviceRoleKey`.
+   */
+  strategy?: "password" | "magiclink" | "otp";
+  /**
+   * Service role key for the GoTrue admin API, used by `provision` and the
+   * "magiclink" / "otp" strategies. Never expose it to the browser.
+   */
+  serviceRoleKey?: string;
+  /**
+   * Create missing test users through the admin API (auto-confirmed, with
+   * appMetadata/userMetadata) before sign-in. authTeardown() deletes the
+   * users it created; reused existing accounts are kept. Requires
+   * `serviceRoleKey`. (default: false)
+   */
+  provision?: boolean;
+}
+
+// =============================================================================
+// Auth0 Configuration
+// =============================================================================
+
+export interface Auth0NextjsConfig {
+  /** The app's AUTH0_SECRET, used to encrypt the session cookie */
+  secret: string;
+  /** Major version of @auth0/nextjs-auth0 (default: 4) */
+  version?: 3 | 4;
+  /** Session cookie name (default: "__session" for v4, "appSession" for v3) */
+  cookieName?: string;
+}
+
+export interface Auth0Config {
+  /**
+   * Tenant domain, e.g. "my-tenant.us.auth0.com".
+   * A full URL (e.g. "http://localhost:4010" for a mock server) is used as-is.
+   */
+  domain: string;
+  clientId: string;
+  /** Required for confidential (Regular Web) applications */
+  clientSecret?: string;
+  /** API audience to request an access token for */
+  audience?: string;
+  /** Requested scopes (default: "openid profile email offline_access") */
+  scope?: string;
+  /** Database connection name (default: "Username-Password-Authentication") */
+  realm?: string;
+  /**
+   * SDK the app uses (default: "spa").
+   * - "spa": @auth0/auth0-react / auth0-spa-js with `cacheLocation: "localstorage"`
+   * - "nextjs": @auth0/nextjs-auth0 session cookie
+   */
+  sdk?: "spa" | "nextjs";
+  /** @auth0/nextjs-auth0 settings (required with `sdk: "nextjs"`) */
+  nextjs?: Auth0NextjsConfig;
 }
 
 // =============================================================================
@@ -66,9 +247,23 @@ export interface SupabaseConfig {
 
 export interface NextAuthConfig {
   /** Enable NextAuth credentials sign-in after Firebase auth */
-  enabled: boolean;
+  enabled?: boolean;
+  /**
+   * Fail Firebase sign-in when the NextAuth session is not established,
+   * instead of logging a warning (default: false)
+   */
+  required?: boolean;
   /** Callback URL after sign-in (default: "/") */
   callbackUrl?: string;
+  /** Path the NextAuth / Auth.js route handler is mounted on (default: "/api/auth") */
+  basePath?: string;
+  /** Id of the credentials provider (default: "credentials") */
+  providerId?: string;
+  /**
+   * Session cookie name (default: any of the NextAuth v4 and Auth.js v5 names,
+   * e.g. "next-auth.session-token" or "authjs.session-token")
+   */
+  cookieName?: string;
 }
 
 // =============================================================================
@@ -79,8 +274,11 @@ export interface PlaywrightAuthConfig {
   /** Authentication provider type */
   provider: ProviderType;
 
-  /** Test user credentials */
-  testUser: TestUser;
+  /** Default test user credentials (saved to `storageStateFile`) */
+  testUser?: TestUser;
+
+  /** Named test users keyed by role (each saved to `<role>.json`) */
+  testUsers?: Record<string, TestUser>;
 
   /** Firebase-specific configuration */
   firebase?: FirebaseConfig;
@@ -88,8 +286,17 @@ export interface PlaywrightAuthConfig {
   /** Supabase-specific configuration */
   supabase?: SupabaseConfig;
 
-  /** NextAuth integration (optional) */
+  /** Auth0-specific configuration */
+  auth0?: Auth0Config;
+
+  /**
+   * NextAuth settings: the credentials step after Firebase auth, or the
+   * "nextauth" provider
+   */
   nextAuth?: NextAuthConfig;
+
+  /** Configuration sections of registered third-party providers */
+  [section: string]: unknown;
 }
 
 // =============================================================================
@@ -97,8 +304,18 @@ export interface PlaywrightAuthConfig {
 // =============================================================================
 
 export interface AuthSetupOptions {
-  /** Path to playwright.env.json configuration file */
-  configPath: string;
+  /**
+   * Path to playwright.env.json configuration file.
+   * When omitted, "./playwright.env.json" is read if it exists, and
+   * environment variables otherwise.
+   */
+  configPath?: string;
+
+  /**
+   * Configuration object to use instead of reading `configPath` or the
+   * environment, e.g. one assembled in code
+   */
+  config?: PlaywrightAuthConfig;
 
   /** Output directory for storage state files (default: "e2e/.auth") */
   outputDir?: string;
@@ -106,8 +323,154 @@ export interface AuthSetupOptions {
   /** Base URL for the application */
   baseURL?: string;
 
-  /** Storage state filename (default: "user.json") */
+  /** Storage state filename for the default test user (default: "user.json") */
   storageStateFile?: string;
+
+  /** Set up only this named user from "testUsers" (default: all users) */
+  user?: string;
+
+  /** Reuse existing storage states that still hold a valid session (default: true) */
+  reuseStorageState?: boolean;
+
+  /**
+   * Minimum remaining session lifetime, in seconds, for a storage state
+   * to be reused instead of signing in again (default: 600)
+   */
+  minSessionValidity?: number;
+
+  /**
+   * Refresh expiring storage states with their refresh token before
+   * falling back to a full sign-in (default: false)
+   */
+  refreshSessions?: boolean;
+
+  /**
+   * Write storage states directly from the provider's session data, without
+   * launching a browser or needing the app to run. Only for providers that
+   * implement createStorageState() (Supabase, Auth0); requires `baseURL`.
+   * (default: false)
+   */
+  browserless?: boolean;
+
+  /**
+   * Browser engine to sign in with (default: "chromium").
+   * Use the engine of the project that consumes the storage state.
+   */
+  browserName?: "chromium" | "firefox" | "webkit";
+
+  /** Options passed to browserType.launch(), e.g. `proxy` or `headless` */
+  launchOptions?: LaunchOptions;
+
+  /**
+   * Options for each sign-in context, e.g. `locale`, `extraHTTPHeaders` or
+   * `httpCredentials`. Applied on top of `baseURL` and
+   * `ignoreHTTPSErrors: true`.
+   */
+  contextOptions?: BrowserContextOptions;
+
+  /**
+   * Existing browser to create the sign-in contexts in, instead of launching
+   * one (`browserName` and `launchOptions` are ignored). It is not closed.
+   */
+  browser?: Browser;
+
+  /**
+   * Page of a setup project (`setup('authenticate', async ({ page }) => ...)`)
+   * to sign in with, so the project's browser and context options apply.
+   * Supports a single test user; the page's context is not closed.
+   */
+  page?: Page;
+}
+
+export interface AuthTeardownOptions {
+  /**
+   * Path to playwright.env.json configuration file.
+   * When omitted, "./playwright.env.json" is read if it exists, and
+   * environment variables otherwise.
+   */
+  configPath?: string;
+
+  /** Clean up only this named user from "testUsers" (default: all users) */
+  user?: string;
+
+  /** Directory authSetup saved the storage states to (default: "e2e/.auth") */
+  outputDir?: string;
+
+  /** Storage state filename of the default testUser (default: "user.json") */
+  storageStateFile?: string;
+
+  /**
+   * Revoke the sessions in the saved storage states and delete the files,
+   * for providers that support revocation. Revocation ends every session of
+   * the user, so saved states cannot be reused by the next run.
+   * (default: false)
+   */
+  revokeSessions?: boolean;
+}
+
+export interface RefreshStorageStateOptions {
+  /**
+   * Path to playwright.env.json configuration file.
+   * When omitted, "./playwright.env.json" is read if it exists, and
+   * environment variables otherwise.
+   */
+  configPath?: string;
+
+  /** Named user from "testUsers" the storage state belongs to */
+  user?: string;
+}
+
+// =============================================================================
+// Storage State
+// =============================================================================
+
+export interface StorageStateIndexedDBRecord {
+  key?: unknown;
+  keyEncoded?: unknown;
+  value?: unknown;
+  valueEncoded?: unknown;
+}
+
+export interface StorageStateIndexedDB {
+  name: string;
+  version: number;
+  stores: Array<{
+    name: string;
+    autoIncrement: boolean;
+    keyPath?: string;
+    keyPathArray?: string[];
+    records: StorageStateIndexedDBRecord[];
+    indexes: Array<{
+      name: string;
+      keyPath?: string;
+      keyPathArray?: string[];
+      multiEntry: boolean;
+      unique: boolean;
+    }>;
+  }>;
+}
+
+export interface StorageStateOrigin {
+  origin: string;
+  localStorage: Array<{ name: string; value: string }>;
+  /** Present when saved with `storageState({ indexedDB: true })` */
+  indexedDB?: StorageStateIndexedDB[];
+}
+
+/** Playwright storage state file format (as written by authSetup) */
+export interface StorageState {
+  cookies: Cookie[];
+  origins: StorageStateOrigin[];
+}
+
+/** Auth tokens read back from a saved storage state */
+export interface StoredSession {
+  /** Access token (Supabase JWT / Firebase ID token) */
+  accessToken: string;
+  /** Refresh token, if stored */
+  refreshToken?: string;
+  /** Access token expiry (Unix time in milliseconds) */
+  expiresAt?: number;
 }
 
 // =============================================================================
@@ -127,6 +490,48 @@ export interface AuthProvider {
    * @returns Promise that resolves when authentication is complete
    */
   signIn(page: Page): Promise<void>;
+
+  /**
+   * Clear the auth state signIn() set in the browser context.
+   *
+   * @param page - Playwright Page instance
+   */
+  signOut(page: Page): Promise<void>;
+
+  /**
+   * Read the auth tokens written by signIn() back from a saved storage state.
+   *
+   * @param state - Parsed storage state file
+   * @returns The stored session, or undefined if none is found
+   */
+  readStoredSession(state: StorageState): StoredSession | undefined;
+
+  /**
+   * Exchange the refresh token in a saved storage state for new tokens.
+   *
+   * @param state - Parsed storage state file
+   * @returns A copy of the storage state holding the refreshed session
+   * @throws Error if no refresh token is stored or the refresh fails
+   */
+  refreshStoredSession(state: StorageState): Promise<StorageState>;
+
+  /**
+   * Sign in without a browser and build the storage state signIn() would
+   * produce for the app at `baseURL`.
+   */
+  createStorageState?(baseURL: string): Promise<StorageState>;
+
+  /**
+   * Delete the test user if the provider created it (provisioning).
+   *
+   * @returns Whether the user was deleted
+   */
+  cleanup?(): Promise<boolean | void>;
+
+  /**
+   * Revoke the session saved in a storage state on the auth server.
+   */
+  revoke?(state: StorageState): Promise<void>;
 }
 
 // =============================================================================
@@ -0,0 +1,222 @@
+import * as fs from "fs";
+import * as path from "path";
+import { loadConfigFromEnv } from "./env-config.js";
+import type { PlaywrightAuthConfig, TestUser } from "../types.js";
+
+/** Default configuration file path */
+export const DEFAULT_CONFIG_PATH = "./playwright.env.json";
+
+/** Default storage state filename for the default test user */
+export const DEFAULT_STORAGE_STATE_FILE = "user.json";
+
+/** Default minimum remaining session lifetime to reuse a storage state (seconds) */
+export const DEFAULT_MIN_SESSION_VALIDITY = 600;
+
+// ${VAR} placeholder in configuration strings
+const ENV_PLACEHOLDER = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Replace `${VAR}` placeholders in every string of a parsed configuration
+ * with the value of the environment variable.
+ *
+ * @throws Error listing every referenced variable that is not set
+ */
+export function interpolateEnv<T>(
+  value: T,
+  env: Record<string, string | undefined> = process.env
+): T {
+  const missing = new Set<string>();
+
+  const interpolate = (node: unknown): unknown => {
+    if (typeof node === "string") {
+      return node.replace(ENV_PLACEHOLDER, (_match, name: string) => {
+        const envValue = env[name];
+        if (envValue === undefined) {
+          missing.add(name);
+          return "";
+        }
+        return envValue;
+      });
+    }
+    if (Array.isArray(node)) {
+      return node.map(interpolate);
+    }
+    if (node !== null && typeof node === "object") {
+      return Object.fromEntries(
+        Object.entries(node).map(([key, child]) => [key, interpolate(child)])
+      );
+    }
+    return node;
+  };
+
+  const result = interpolate(value) as T;
+
+  if (missing.size > 0) {
+    throw new Error(
+      `Configuration references unset environment variables: ${[...missing].join(", ")}`
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Load a configuration file from disk and parse it as JSON.
+ * Relative paths are resolved against the current working directory,
+ * and `${VAR}` placeholders are replaced with environment variables.
+ */
+export function loadConfigFile(configPath: string): PlaywrightAuthConfig {
+  const absolutePath = path.isAbsolute(configPath)
+    ? configPath
+    : path.resolve(process.cwd(), configPath);
+
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(
+      `Configuration file not found: ${absolutePath}\n` +
+        `Please create the file from playwright.env.json.sample`
+    );
+  }
+
+  const content = fs.readFileSync(absolutePath, "utf-8");
+  let rawConfig: PlaywrightAuthConfig;
+
+  try {
+    rawConfig = JSON.parse(content);
+  } catch {
+    throw new Error(
+      `Failed to parse configuration file: ${absolutePath}\n` +
+        `Please ensure the file contains valid JSON`
+    );
+  }
+
+  return interpolateEnv(rawConfig);
+}
+
+/**
+ * Resolve where configuration is read from when `configPath` is omitted:
+ * "./playwright.env.json" if it exists, otherwise environment variables
+ * (returned as undefined). Shared by authSetup, authTeardown,
+ * refreshStorageState and the fixtures.
+ */
+export function resolveConfigPath(configPath?: string): string | undefined {
+  if (configPath !== undefined) {
+    return configPath;
+  }
+
+  return fs.existsSync(path.resolve(process.cwd(), DEFAULT_CONFIG_PATH))
+    ? DEFAULT_CONFIG_PATH
+    : undefined;
+}
+
+/**
+ * Load configuration from a file, or from environment variables when
+ * no path is given and there is no "./playwright.env.json".
+ */
+export function loadConfig(configPath?: string): PlaywrightAuthConfig {
+  const resolvedPath = resolveConfigPath(configPath);
+  return resolvedPath !== undefined
+    ? loadConfigFile(resolvedPath)
+    : loadConfigFromEnv();
+}
+
+/**
+ * Get the configuration path of a test user, used in error messages.
+ * e.g., undefined -> "testUser", "admin" -> "testUsers.admin"
+ */
+export function testUserPath(userName?: string): string {
+  return userName === undefined ? "testUser" : `testUsers.${userName}`;
+}
+
+/**
+ * Resolve the test user to authenticate as.
+ *
+ * Without a name, the default `testUser` is returned.
+ * With a name, the matching entry of `testUsers` is returned.
+ */
+export function resolveTestUser(
+  config: PlaywrightAuthConfig,
+  userName?: string
+): TestUser {
+  const testUsers = config.testUsers ?? {};
+
+  if (userName === undefined) {
+    if (config.testUser) {
+      return config.testUser;
+    }
+
+    const names = Object.keys(testUsers);
+    if (names.length > 0) {
+      throw new Error(
+        `Configuration has no default "testUser". ` +
+          `Specify one of the named test users: ${names.join(", ")}`
+      );
+    }
+
+    throw new Error('Configuration must specify "testUser" field');
+  }
+
+  const testUser = testUsers[userName];
+  if (!testUser) {
+    const names = Object.keys(testUsers);
+    throw new Error(
+      `Test user "${userName}" not found in "testUsers"` +
+        (names.length > 0 ? `. Available: ${names.join(", ")}` : "")
+    );
+  }
+
+  return testUser;
+}
+
+/**
+ * List the test users an authSetup run should sign in.
+ * `undefined` stands for the default `testUser`.
+ */
+export function getTestUserNames(
+  config: PlaywrightAuthConfig
+): Array<string | undefined> {
+  const names: Array<string | undefined> = [];
+
+  if (config.testUser) {
+    names.push(undefined);
+  }
+  names.push(...Object.keys(config.testUsers ?? {}));
+
+  return names;
+}
+
+/**
+ * Get the storage state filename for a test user.
+ * e.g., undefined -> "user.json", "admin" -> "admin.json"
+ */
+export function getStorageStateFileName(
+  userName?: string,
+  defaultFile: string = DEFAULT_STORAGE_STATE_FILE
+): string {
+  return userName === undefined ? defaultFile : `${userName}.json`;
+}
+
+/**
+ * Derive a distinct test user for a parallel worker from a base user.
+ * e.g., worker 1: "e2e@example.com" -> "e2e+worker1@example.com",
+ * uid "e2e-uid" -> "e2e-uid-worker1". Other fields are shared.
+ */
+export function deriveWorkerTestUser(
+  testUser: TestUser,
+  workerIndex: number
+): TestUser {
+  const suffix = `worker${workerIndex}`;
+  const derived: TestUser = { ...testUser };
+
+  if (testUser.email) {
+    const at = testUser.email.lastIndexOf("@");
+    derived.email =
+      at === -1
+        ? `${testUser.email}+${suffix}`
+        : `${testUser.email.slice(0, at)}+${suffix}${testUser.email.slice(at)}`;
+  }
+  if (testUser.uid) {
+    derived.uid = `${testUser.uid}-${suffix}`;
+  }
+
+  return derived;
+}
@@ -0,0 +1,203 @@
+import { configSchema } from "../schema.js";
+import { DEFAULT_STORAGE_STATE_FILE } from "./config-loader.js";
+import type { PlaywrightAuthConfig } from "../types.js";
+
+/**
+ * Subset of JSON Schema (draft-07) understood by validateSchema()
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: "string" | "number" | "integer" | "boolean" | "object" | "array";
+  enum?: readonly unknown[];
+  minLength?: number;
+  pattern?: string;
+  properties?: Record<string, JsonSchema>;
+  propertyNames?: JsonSchema;
+  required?: readonly string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  default?: unknown;
+  examples?: readonly unknown[];
+}
+
+/** A single configuration problem, located by JSON path (e.g. "$.supabase.url") */
+export interface ConfigIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a configuration has one or more problems.
+ * All problems are reported at once in `issues` and in the message.
+ */
+export class ConfigValidationError extends Error {
+  readonly issues: ConfigIssue[];
+
+  constructor(issues: ConfigIssue[]) {
+    super(
+      `Invalid configuration (${issues.length} problem${issues.length === 1 ? "" : "s"}):\n` +
+        issues.map((issue) => `  - ${issue.path}: ${issue.message}`).join("\n")
+    );
+    this.name = "ConfigValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Append a property name to a JSON path.
+ * e.g., ("$", "firebase") -> "$.firebase", ("$.testUsers", "qa-1") -> '$.testUsers["qa-1"]'
+ */
+export function childPath(path: string, key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Get the JSON Schema type name of a value
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+/**
+ * Validate a value against a JSON Schema, collecting every problem.
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string = "$"
+): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+
+  if (schema.type) {
+    const actual = typeOf(value);
+    const matches =
+      actual === schema.type ||
+      (schema.type === "number" && actual === "integer");
+    if (!matches) {
+      return [{ path, message: `must be ${schema.type}, got ${actual}` }];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({
+      path,
+      message: `must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`,
+    });
+  }
+
+  if (
+    typeof value === "string" &&
+    schema.minLength !== undefined &&
+    value.length < schema.minLength
+  ) {
+    issues.push({ path, message: "must not be empty" });
+  }
+
+  if (
+    typeof value === "string" &&
+    schema.pattern !== undefined &&
+    !new RegExp(schema.pattern, "u").test(value)
+  ) {
+    issues.push({ path, message: `must match pattern ${schema.pattern}` });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      issues.push(...validateSchema(item, schema.items!, `${path}[${index}]`));
+    });
+  }
+
+  if (typeOf(value) === "object") {
+    const record = value as Record<string, unknown>;
+    const label = schema.title ?? "Object";
+
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        issues.push({
+          path: childPath(path, key),
+          message: `${label} requires "${key}"`,
+        });
+      }
+    }
+
+    for (const [key, child] of Object.entries(record)) {
+      if (schema.propertyNames) {
+        for (const issue of validateSchema(
+          key,
+          schema.propertyNames,
+          childPath(path, key)
+        )) {
+          issues.push({ ...issue, message: `name ${issue.message}` });
+        }
+      }
+
+      if (child === undefined) continue;
+
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        issues.push(
+          ...validateSchema(child, propertySchema, childPath(path, key))
+        );
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: childPath(path, key), message: "is not allowed" });
+      } else if (typeof schema.additionalProperties === "object") {
+        issues.push(
+          ...validateSchema(
+            child,
+            schema.additionalProperties,
+            childPath(path, key)
+          )
+        );
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Reject named users whose "<role>.json" would overwrite the default
+ * testUser's storage state
+ */
+function validateTestUserNames(config: PlaywrightAuthConfig): ConfigIssue[] {
+  const reserved = DEFAULT_STORAGE_STATE_FILE.replace(/\.json$/, "");
+  if (!config.testUser || config.testUsers?.[reserved] === undefined) {
+    return [];
+  }
+
+  return [
+    {
+      path: childPath("$.testUsers", reserved),
+      message: `conflicts with the default "testUser", which is saved to ${DEFAULT_STORAGE_STATE_FILE}`,
+    },
+  ];
+}
+
+/**
+ * Validate a whole configuration against the schema, together with any
+ * provider-specific problems, and throw once with every problem found.
+ *
+ * @throws ConfigValidationError if there are any problems
+ */
+export function validateConfig(
+  config: PlaywrightAuthConfig,
+  providerIssues: ConfigIssue[] = []
+): void {
+  const issues = [
+    ...validateSchema(config, configSchema),
+    ...validateTestUserNames(config),
+    ...providerIssues,
+  ];
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+}
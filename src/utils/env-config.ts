@@ -0,0 +1,167 @@
+import type { PlaywrightAuthConfig, ProviderType, TestUser } from "../types.js";
+
+/**
+ * Environment variables read by loadConfigFromEnv().
+ *
+ * | Variable                  | Config field                          |
+ * |---------------------------|---------------------------------------|
+ * | PLAYWRIGHT_AUTH_PROVIDER  | provider (inferred if unset)          |
+ * | TEST_UID                  | testUser.uid                          |
+ * | TEST_EMAIL                | testUser.email                        |
+ * | TEST_PASSWORD             | testUser.password                     |
+ * | TEST_USERS                | testUsers (JSON object)               |
+ * | SERVICE_ACCOUNT           | firebase.serviceAccount (JSON string) |
+ * | FIREBASE_API_KEY          | firebase.clientConfig.apiKey          |
+ * | FIREBASE_AUTH_DOMAIN      | firebase.clientConfig.authDomain      |
+ * | FIREBASE_PROJECT_ID       | firebase.clientConfig.projectId       |
+ * | SUPABASE_URL              | supabase.url                          |
+ * | SUPABASE_ANON_KEY         | supabase.anonKey                      |
+ * | SUPABASE_STORAGE_KEY      | supabase.storageKey                   |
+ * | SUPABASE_SERVICE_ROLE_KEY | supabase.serviceRoleKey               |
+ * | AUTH0_DOMAIN              | auth0.domain                          |
+ * | AUTH0_CLIENT_ID           | auth0.clientId                        |
+ * | AUTH0_CLIENT_SECRET       | auth0.clientSecret                    |
+ * | AUTH0_AUDIENCE            | auth0.audience                        |
+ * | AUTH0_SECRET              | auth0.nextjs.secret (sdk: "nextjs")   |
+ * | NEXTAUTH_ENABLED          | nextAuth.enabled ("true" / "false")   |
+ * | NEXTAUTH_CALLBACK_URL     | nextAuth.callbackUrl                  |
+ */
+export const ENV_VARS = {
+  provider: "PLAYWRIGHT_AUTH_PROVIDER",
+  testUid: "TEST_UID",
+  testEmail: "TEST_EMAIL",
+  testPassword: "TEST_PASSWORD",
+  testUsers: "TEST_USERS",
+  serviceAccount: "SERVICE_ACCOUNT",
+  firebaseApiKey: "FIREBASE_API_KEY",
+  firebaseAuthDomain: "FIREBASE_AUTH_DOMAIN",
+  firebaseProjectId: "FIREBASE_PROJECT_ID",
+  supabaseUrl: "SUPABASE_URL",
+  supabaseAnonKey: "SUPABASE_ANON_KEY",
+  supabaseStorageKey: "SUPABASE_STORAGE_KEY",
+  supabaseServiceRoleKey: "SUPABASE_SERVICE_ROLE_KEY",
+  auth0Domain: "AUTH0_DOMAIN",
+  auth0ClientId: "AUTH0_CLIENT_ID",
+  auth0ClientSecret: "AUTH0_CLIENT_SECRET",
+  auth0Audience: "AUTH0_AUDIENCE",
+  auth0Secret: "AUTH0_SECRET",
+  nextAuthEnabled: "NEXTAUTH_ENABLED",
+  nextAuthCallbackUrl: "NEXTAUTH_CALLBACK_URL",
+} as const;
+
+/**
+ * Parse a JSON-valued environment variable
+ */
+function parseJsonEnv<T>(
+  env: Record<string, string | undefined>,
+  name: string
+): T | undefined {
+  const value = env[name];
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    throw new Error(`Environment variable ${name} must contain valid JSON`);
+  }
+}
+
+/**
+ * Determine the provider type, inferring it from the variables present
+ * when PLAYWRIGHT_AUTH_PROVIDER is not set.
+ */
+function resolveProvider(
+  env: Record<string, string | undefined>
+): ProviderType {
+  const provider = env[ENV_VARS.provider];
+  if (provider) {
+    return provider as ProviderType;
+  }
+
+  if (env[ENV_VARS.supabaseUrl]) {
+    return "supabase";
+  }
+  if (env[ENV_VARS.firebaseApiKey] || env[ENV_VARS.serviceAccount]) {
+    return "firebase";
+  }
+  if (env[ENV_VARS.auth0Domain]) {
+    return "auth0";
+  }
+
+  throw new Error(
+    `Cannot determine provider from environment. ` +
+      `Please set ${ENV_VARS.provider} to "firebase", "supabase" or "auth0"`
+  );
+}
+
+/**
+ * Build a PlaywrightAuthConfig from environment variables (see ENV_VARS).
+ * Unset variables leave the matching config fields undefined, so the
+ * configuration validation reports what is missing.
+ */
+export function loadConfigFromEnv(
+  env: Record<string, string | undefined> = process.env
+): PlaywrightAuthConfig {
+  const provider = resolveProvider(env);
+  const config: PlaywrightAuthConfig = { provider };
+
+  const testUser: TestUser = {
+    uid: env[ENV_VARS.testUid],
+    email: env[ENV_VARS.testEmail],
+    password: env[ENV_VARS.testPassword],
+  };
+  if (testUser.uid || testUser.email || testUser.password) {
+    config.testUser = testUser;
+  }
+
+  const testUsers = parseJsonEnv<Record<string, TestUser>>(
+    env,
+    ENV_VARS.testUsers
+  );
+  if (testUsers) {
+    config.testUsers = testUsers;
+  }
+
+  if (provider === "firebase") {
+    config.firebase = {
+      serviceAccount: parseJsonEnv(env, ENV_VARS.serviceAccount),
+      clientConfig: {
+        apiKey: env[ENV_VARS.firebaseApiKey]!,
+        authDomain: env[ENV_VARS.firebaseAuthDomain]!,
+        projectId: env[ENV_VARS.firebaseProjectId]!,
+      },
+    };
+  }
+
+  if (provider === "supabase") {
+    config.supabase = {
+      url: env[ENV_VARS.supabaseUrl]!,
+      anonKey: env[ENV_VARS.supabaseAnonKey]!,
+      storageKey: env[ENV_VARS.supabaseStorageKey],
+      serviceRoleKey: env[ENV_VARS.supabaseServiceRoleKey],
+    };
+  }
+
+  if (provider === "auth0") {
+    const secret = env[ENV_VARS.auth0Secret];
+    config.auth0 = {
+      domain: env[ENV_VARS.auth0Domain]!,
+      clientId: env[ENV_VARS.auth0ClientId]!,
+      clientSecret: env[ENV_VARS.auth0ClientSecret],
+      audience: env[ENV_VARS.auth0Audience],
+      ...(secret && { sdk: "nextjs", nextjs: { secret } }),
+    };
+  }
+
+  if (env[ENV_VARS.nextAuthEnabled] !== undefined) {
+    config.nextAuth = {
+      enabled: env[ENV_VARS.nextAuthEnabled] === "true",
+      callbackUrl: env[ENV_VARS.nextAuthCallbackUrl],
+    };
+  }
+
+  // Drop unset fields so validation treats them as missing
+  return JSON.parse(JSON.stringify(config)) as PlaywrightAuthConfig;
+}
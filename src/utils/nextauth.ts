@@ -0,0 +1,158 @@
+import type { Page } from "@playwright/test";
+import type { NextAuthConfig, NextAuthSignInResult } from "../types.js";
+
+export const DEFAULT_NEXTAUTH_BASE_PATH = "/api/auth";
+export const DEFAULT_NEXTAUTH_PROVIDER_ID = "credentials";
+
+/**
+ * Session cookie names set by NextAuth v4 and Auth.js v5
+ * (prefixed with "__Secure-" on HTTPS)
+ */
+export const NEXTAUTH_SESSION_COOKIES = [
+  "next-auth.session-token",
+  "__Secure-next-auth.session-token",
+  "authjs.session-token",
+  "__Secure-authjs.session-token",
+];
+
+/**
+ * Find the session cookie, or its ".0", ".1", ... chunks when the
+ * session is too large for one cookie.
+ *
+ * @param cookieName - Custom session cookie name (default: v4 and v5 names)
+ */
+export function findSessionCookies<T extends { name: string }>(
+  cookies: T[],
+  cookieName?: string
+): T[] {
+  const names = cookieName ? [cookieName] : NEXTAUTH_SESSION_COOKIES;
+
+  return cookies.filter((cookie) =>
+    names.some(
+      (name) =>
+        cookie.name === name ||
+        (cookie.name.startsWith(`${name}.`) &&
+          /^\d+$/.test(cookie.name.slice(name.length + 1)))
+    )
+  );
+}
+
+/**
+ * Sign in through a NextAuth / Auth.js credentials provider from the page,
+ * so the session cookie is set on the app origin.
+ *
+ * Sign-in only counts as successful when the provider did not redirect to
+ * an error page, `<basePath>/session` returns a user, and the session cookie
+ * is set.
+ *
+ * @param credentials - Fields passed to the provider's `authorize()`
+ */
+export async function signInWithCredentials(
+  page: Page,
+  credentials: Record<string, string>,
+  config: Omit<NextAuthConfig, "enabled" | "required"> = {}
+): Promise<NextAuthSignInResult> {
+  const basePath = (config.basePath ?? DEFAULT_NEXTAUTH_BASE_PATH).replace(
+    /\/+$/,
+    ""
+  );
+
+  const response = await page.evaluate(
+    async ({ basePath, providerId, callbackUrl, credentials }) => {
+      try {
+        // Get CSRF token
+        const csrfResponse = await fetch(`${basePath}/csrf`);
+        const csrfData = (await csrfResponse.json()) as { csrfToken: string };
+        const csrfToken = csrfData.csrfToken;
+
+        // Credentials sign-in
+        const response = await fetch(`${basePath}/callback/${providerId}`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+            // Auth.js v5: answer with JSON instead of a redirect
+            "X-Auth-Return-Redirect": "1",
+          },
+          body: new URLSearchParams({
+            ...credentials,
+            csrfToken,
+            callbackUrl,
+            json: "true",
+          }),
+          redirect: "manual",
+        });
+
+        console.log("[NEXTAUTH] Response status:", response.status);
+
+        // With json=true NextAuth answers { url } instead of redirecting
+        let redirectUrl: string | undefined;
+        if (response.status === 200) {
+          const data = (await response.json().catch(() => ({}))) as {
+            url?: string;
+          };
+          redirectUrl = data.url;
+        }
+
+        // Confirm the session
+        const sessionResponse = await fetch(`${basePath}/session`);
+        const session = (await sessionResponse.json().catch(() => null)) as {
+          user?: unknown;
+        } | null;
+
+        return {
+          status: response.status,
+          redirectUrl,
+          hasUser: Boolean(session?.user),
+        };
+      } catch (error) {
+        console.error("[NEXTAUTH] Sign in failed:", error);
+        return { error: String(error) };
+      }
+    },
+    {
+      basePath,
+      providerId: config.providerId ?? DEFAULT_NEXTAUTH_PROVIDER_ID,
+      callbackUrl: config.callbackUrl ?? "/",
+      credentials,
+    }
+  );
+
+  if ("error" in response) {
+    return { success: false, error: response.error };
+  }
+
+  const { status, redirectUrl, hasUser } = response;
+
+  // Failed sign-ins redirect to the error or sign-in page with ?error=
+  if (redirectUrl) {
+    const url = new URL(redirectUrl, page.url());
+    const error = url.searchParams.get("error");
+    if (error || url.pathname === `${basePath}/error`) {
+      return {
+        success: false,
+        status,
+        error: `redirected to ${url.pathname}${error ? ` (${error})` : ""}`,
+      };
+    }
+  }
+
+  // A manual redirect is opaque to fetch (status 0); the session check decides
+  if (status !== 200 && status !== 302 && status !== 0) {
+    return { success: false, status, error: `unexpected status ${status}` };
+  }
+
+  if (!hasUser) {
+    return {
+      success: false,
+      status,
+      error: `no user in ${basePath}/session`,
+    };
+  }
+
+  const cookies = await page.context().cookies();
+  if (findSessionCookies(cookies, config.cookieName).length === 0) {
+    return { success: false, status, error: "session cookie was not set" };
+  }
+
+  return { success: true, status };
+}
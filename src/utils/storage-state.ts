@@ -0,0 +1,118 @@
+import type { Cookie } from "@playwright/test";
+import * as fs from "fs";
+import type { StorageState } from "../types.js";
+
+/**
+ * Read a saved storage state file.
+ */
+export function readStorageState(storageStatePath: string): StorageState {
+  if (!fs.existsSync(storageStatePath)) {
+    throw new Error(
+      `Storage state not found: ${storageStatePath}\n` +
+        `Please run authSetup to create it`
+    );
+  }
+
+  const content = fs.readFileSync(storageStatePath, "utf-8");
+
+  try {
+    return JSON.parse(content) as StorageState;
+  } catch {
+    throw new Error(`Failed to parse storage state file: ${storageStatePath}`);
+  }
+}
+
+/**
+ * Find a localStorage value by key across all origins.
+ */
+export function findLocalStorageItem(
+  state: StorageState,
+  name: string
+): string | undefined {
+  for (const origin of state.origins ?? []) {
+    const item = origin.localStorage?.find((entry) => entry.name === name);
+    if (item) {
+      return item.value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Overwrite a localStorage value in every origin that already holds the key.
+ * Returns the number of entries updated.
+ */
+export function setLocalStorageItem(
+  state: StorageState,
+  name: string,
+  value: string
+): number {
+  let updated = 0;
+
+  for (const origin of state.origins ?? []) {
+    for (const entry of origin.localStorage ?? []) {
+      if (entry.name === name) {
+        entry.value = value;
+        updated++;
+      }
+    }
+  }
+
+  return updated;
+}
+
+/**
+ * Collect the values of an IndexedDB object store across all origins.
+ * Only plain (non-encoded) values are returned, by reference, so callers
+ * may update them in place.
+ */
+export function findIndexedDBValues(
+  state: StorageState,
+  databaseName: string,
+  storeName: string
+): unknown[] {
+  const values: unknown[] = [];
+
+  for (const origin of state.origins ?? []) {
+    for (const database of origin.indexedDB ?? []) {
+      if (database.name !== databaseName) continue;
+
+      for (const store of database.stores) {
+        if (store.name !== storeName) continue;
+
+        for (const record of store.records) {
+          if (record.value !== undefined) {
+            values.push(record.value);
+          }
+        }
+      }
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Build a storage state for the app origin without a browser, in the format
+ * context.storageState() saves. Cookies default to the origin's hostname,
+ * path "/", SameSite=Lax, and Secure on HTTPS.
+ */
+export function buildStorageState(
+  baseURL: string,
+  localStorage: Array<{ name: string; value: string }>,
+  cookies: Array<Pick<Cookie, "name" | "value" | "expires"> & Partial<Cookie>>
+): StorageState {
+  const { origin, hostname, protocol } = new URL(baseURL);
+
+  return {
+    cookies: cookies.map((cookie) => ({
+      domain: hostname,
+      path: "/",
+      httpOnly: false,
+      secure: protocol === "https:",
+      sameSite: "Lax",
+      ...cookie,
+    })),
+    origins: localStorage.length > 0 ? [{ origin, localStorage }] : [],
+  };
+}
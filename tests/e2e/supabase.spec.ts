@@ -16,15 +16,14 @@ test.beforeAll(() => {
   }
 });
 
-// Helper to get Supabase storage key
-function getSupabaseStorageKey(config: { supabase?: { url?: string } }): string {
+// Helper to get Supabase storage key (mirrors supabase-js derivation)
+function getSupabaseStorageKey(config: {
+  supabase?: { url?: string; storageKey?: string };
+}): string {
+  if (config.supabase?.storageKey) return config.supabase.storageKey;
   if (!config.supabase?.url) return "";
-  const url = new URL(config.supabase.url);
-  const hostname = url.hostname;
-  const projectRef = hostname.endsWith(".supabase.co")
-    ? hostname.replace(".supabase.co", "")
-    : hostname.replace(/\./g, "-");
-  return `sb-${projectRef}-auth-token`;
+  const hostname = new URL(config.supabase.url).hostname;
+  return `sb-${hostname.split(".")[0]}-auth-token`;
 }
 
 test.describe("Supabase Authentication E2E", () => {
@@ -1,16 +1,65 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import * as fs from "fs";
 import * as path from "path";
+import admin from "firebase-admin";
 import { FirebaseProvider } from "../../src/providers/firebase.js";
-import { SupabaseProvider } from "../../src/providers/supabase.js";
-import { createProviderFromConfigFile, ensureOutputDir } from "../../src/index.js";
-import type { PlaywrightAuthConfig } from "../../src/types.js";
+import {
+  Auth0Provider,
+  decryptSessionCookie,
+} from "../../src/providers/auth0.js";
+import { NextAuthProvider } from "../../src/providers/nextauth.js";
+import {
+  SupabaseProvider,
+  decodeSessionCookies,
+  encodeSessionCookies,
+} from "../../src/providers/supabase.js";
+import {
+  authSetup,
+  authTeardown,
+  BaseAuthProvider,
+  ConfigValidationError,
+  configSchema,
+  createProviderFromConfig,
+  createProviderFromConfigFile,
+  createProviderFromEnv,
+  ensureOutputDir,
+  findLocalStorageItem,
+  getRegisteredProviders,
+  refreshStorageState,
+  registerProvider,
+} from "../../src/index.js";
+import { authFixtures, type WorkerUser } from "../../src/fixtures.js";
+import { generateTotp } from "../../src/utils/totp.js";
+import {
+  deriveWorkerTestUser,
+  getStorageStateFileName,
+  getTestUserNames,
+  loadConfigFile,
+} from "../../src/utils/config-loader.js";
+import type {
+  PlaywrightAuthConfig,
+  StorageState,
+  StoredSession,
+} from "../../src/types.js";
 
 // Mock firebase-admin
 vi.mock("firebase-admin", () => {
   const mockAuth = {
     createCustomToken: vi.fn().mockResolvedValue("mock-custom-token"),
+    setCustomUserClaims: vi.fn(),
+    getUserByEmail: vi.fn(),
+    createUser: vi.fn(),
+    deleteUser: vi.fn(),
+    revokeRefreshTokens: vi.fn(),
+    createSessionCookie: vi.fn().mockResolvedValue("mock-session-cookie"),
+    tenantManager: vi.fn(),
   };
+  const mockTenantAuth = {
+    createCustomToken: vi.fn().mockResolvedValue("mock-tenant-token"),
+  };
+  mockAuth.tenantManager.mockReturnValue({
+    authForTenant: vi.fn().mockReturnValue(mockTenantAuth),
+  });
 
   return {
     default: {
@@ -24,6 +73,18 @@ vi.mock("firebase-admin", () => {
   };
 });
 
+// Mock browser launch for authSetup
+const mockLaunch = vi.hoisted(() => vi.fn());
+const mockFirefoxLaunch = vi.hoisted(() => vi.fn());
+vi.mock("@playwright/test", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@playwright/test")>();
+  return {
+    ...actual,
+    chromium: { ...actual.chromium, launch: mockLaunch },
+    firefox: { ...actual.firefox, launch: mockFirefoxLaunch },
+  };
+});
+
 // Mock fetch for Supabase
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
@@ -72,6 +133,85 @@ const validSupabaseConfig: PlaywrightAuthConfig = {
   },
 };
 
+// Supabase storage state holding a localStorage session
+const supabaseStorageState = (
+  accessToken: string,
+  expiresAt: number
+): StorageState => ({
+  cookies: [],
+  origins: [
+    {
+      origin: "http://localhost:3000",
+      localStorage: [
+        {
+          name: "sb-test-project-auth-token",
+          value: JSON.stringify({
+            access_token: accessToken,
+            refresh_token: "refresh",
+            expires_at: expiresAt,
+          }),
+        },
+      ],
+    },
+  ],
+});
+
+// Successful fetch response with a JSON body
+const jsonResponse = (body: unknown) => ({
+  ok: true,
+  json: vi.fn().mockResolvedValue(body),
+});
+
+// Page for Supabase sign-in; evaluate() returns the stored session
+const createSupabasePage = () => ({
+  on: vi.fn(),
+  goto: vi.fn(),
+  reload: vi.fn(),
+  evaluate: vi.fn().mockResolvedValue("session"),
+});
+
+// Page for Firebase sign-in; the first evaluate() is signInWithCustomToken
+const createFirebasePage = (uid = "test-user-uid") => ({
+  on: vi.fn(),
+  goto: vi.fn(),
+  reload: vi.fn(),
+  waitForTimeout: vi.fn(),
+  addScriptTag: vi.fn(),
+  evaluate: vi
+    .fn()
+    .mockResolvedValueOnce({ success: true, uid })
+    .mockResolvedValue([]),
+});
+
+// Run a fixture of `authFixtures` with the given dependencies; `inUse` runs
+// while the fixture value is in use, before its teardown
+async function runFixture<T>(
+  name: keyof typeof authFixtures,
+  deps: Record<string, unknown>,
+  inUse: (value: T) => Promise<void> = async () => {},
+  workerInfo: Record<string, unknown> = { parallelIndex: 0 }
+): Promise<T> {
+  const definition = authFixtures[name] as unknown;
+  const fixture = (
+    Array.isArray(definition) ? definition[0] : definition
+  ) as (
+    deps: Record<string, unknown>,
+    use: (value: T) => Promise<void>,
+    workerInfo: Record<string, unknown>
+  ) => Promise<void>;
+
+  let provided: T | undefined;
+  await fixture(
+    deps,
+    async (value) => {
+      provided = value;
+      await inUse(value);
+    },
+    workerInfo
+  );
+  return provided as T;
+}
+
 describe("Provider.fromConfigFile", () => {
   beforeEach(() => {
     if (!fs.existsSync(TEST_CONFIG_DIR)) {
@@ -150,6 +290,42 @@ describe("Provider.fromConfigFile", () => {
       );
     });
 
+    it("should not require serviceAccount with emulator config", () => {
+      const config = {
+        provider: "firebase",
+        testUser: { uid: "test" },
+        firebase: {
+          clientConfig: validFirebaseConfig.firebase?.clientConfig,
+          emulator: { host: "127.0.0.1:9099" },
+        },
+      };
+      fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(config));
+
+      expect(FirebaseProvider.fromConfigFile(TEST_CONFIG_PATH)).toBeInstanceOf(
+        FirebaseProvider
+      );
+    });
+
+    it("should not require serviceAccount with FIREBASE_AUTH_EMULATOR_HOST", () => {
+      const config = {
+        provider: "firebase",
+        testUser: { uid: "test" },
+        firebase: {
+          clientConfig: validFirebaseConfig.firebase?.clientConfig,
+        },
+      };
+      fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(config));
+      vi.stubEnv("FIREBASE_AUTH_EMULATOR_HOST", "127.0.0.1:9099");
+
+      try {
+        expect(FirebaseProvider.fromConfigFile(TEST_CONFIG_PATH)).toBeInstanceOf(
+          FirebaseProvider
+        );
+      } finally {
+        vi.unstubAllEnvs();
+      }
+    });
+
     it("should throw error for missing clientConfig", () => {
       const config = {
         provider: "firebase",
@@ -312,6 +488,402 @@ describe("createProviderFromConfigFile", () => {
   });
 });
 
+describe("Configuration validation", () => {
+  it("should create a provider from an in-memory config", () => {
+    expect(createProviderFromConfig(validSupabaseConfig)).toBeInstanceOf(
+      SupabaseProvider
+    );
+    expect(FirebaseProvider.fromConfig(validFirebaseConfig)).toBeInstanceOf(
+      FirebaseProvider
+    );
+  });
+
+  it("should report every problem at once with JSON paths", () => {
+    const config = {
+      provider: "firebase",
+      testUser: { email: "test@example.com" },
+      firebase: {
+        clientConfig: { apiKey: "key", projectId: 42 },
+      },
+    } as unknown as PlaywrightAuthConfig;
+
+    let error: unknown;
+    try {
+      createProviderFromConfig(config);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect((error as ConfigValidationError).issues).toEqual([
+      {
+        path: "$.firebase.clientConfig.authDomain",
+        message: 'Firebase clientConfig requires "authDomain"',
+      },
+      {
+        path: "$.firebase.clientConfig.projectId",
+        message: "must be string, got integer",
+      },
+      {
+        path: "$.testUser.uid",
+        message: 'Firebase authentication requires "testUser.uid"',
+      },
+      {
+        path: "$.firebase.serviceAccount",
+        message: 'Firebase configuration requires "serviceAccount"',
+      },
+    ]);
+    expect((error as Error).message).toContain(
+      "Invalid configuration (4 problems):\n" +
+        '  - $.firebase.clientConfig.authDomain: Firebase clientConfig requires "authDomain"'
+    );
+  });
+
+  it("should reject invalid values for enum and non-empty fields", () => {
+    const config = {
+      ...validSupabaseConfig,
+      supabase: {
+        url: "",
+        anonKey: "test-anon-key",
+        sessionStorage: "sessionStorage",
+      },
+    } as unknown as PlaywrightAuthConfig;
+
+    expect(() => createProviderFromConfig(config)).toThrow(
+      /\$\.supabase\.url: must not be empty[\s\S]*\$\.supabase\.sessionStorage: must be one of "localStorage", "cookie"/
+    );
+  });
+
+  it("should quote named users that are not identifiers", () => {
+    const config = {
+      ...validSupabaseConfig,
+      testUsers: { "qa-1": { email: 42 } },
+    } as unknown as PlaywrightAuthConfig;
+
+    expect(() => createProviderFromConfig(config)).toThrow(
+      '$.testUsers["qa-1"].email: must be string, got integer'
+    );
+  });
+
+  it("should reject named users that are not safe file names", () => {
+    const config = {
+      ...validSupabaseConfig,
+      testUsers: { "../x": { email: "x@example.com", password: "secret" } },
+    } as unknown as PlaywrightAuthConfig;
+
+    expect(() => createProviderFromConfig(config, "../x")).toThrow(
+      '$.testUsers["../x"]: name must match pattern ^[A-Za-z0-9][A-Za-z0-9._-]*$'
+    );
+  });
+
+  it("should reject a named user that overwrites the default user.json", () => {
+    const config = {
+      ...validSupabaseConfig,
+      testUsers: { user: { email: "x@example.com", password: "secret" } },
+    };
+
+    expect(() => createProviderFromConfig(config)).toThrow(
+      '$.testUsers.user: conflicts with the default "testUser", which is saved to user.json'
+    );
+  });
+
+  it("should keep the published JSON Schema in sync", () => {
+    const published = JSON.parse(
+      fs.readFileSync(
+        path.join(process.cwd(), "playwright.env.schema.json"),
+        "utf-8"
+      )
+    );
+
+    expect(published).toEqual(configSchema);
+  });
+});
+
+describe("Provider registry", () => {
+  class TokenProvider extends BaseAuthProvider {
+    protected readonly name = "Token";
+    persisted = true;
+
+    constructor(readonly token: string) {
+      super();
+    }
+
+    protected async authenticate(): Promise<void> {}
+
+    protected async isAuthenticated(): Promise<boolean> {
+      return this.persisted;
+    }
+
+    readStoredSession(): StoredSession | undefined {
+      return { accessToken: this.token };
+    }
+  }
+
+  registerProvider("token", {
+    validate: (config) =>
+      typeof (config.token as { value?: unknown } | undefined)?.value === "string"
+        ? []
+        : [{ path: "$.token.value", message: 'Token configuration requires "value"' }],
+    create: (config) =>
+      new TokenProvider((config.token as { value: string }).value),
+  });
+
+  it("should create a registered provider from its config section", () => {
+    const provider = createProviderFromConfig({
+      provider: "token",
+      token: { value: "secret" },
+    });
+
+    expect(provider).toBeInstanceOf(TokenProvider);
+    expect(provider.readStoredSession({ cookies: [], origins: [] })).toEqual({
+      accessToken: "secret",
+    });
+  });
+
+  it("should report provider and schema problems together", () => {
+    const config = {
+      provider: "token",
+      testUser: { uid: 1 },
+    } as unknown as PlaywrightAuthConfig;
+
+    expect(() => createProviderFromConfig(config)).toThrow(
+      /\$\.testUser\.uid: must be string[\s\S]*\$\.token\.value: Token configuration requires "value"/
+    );
+  });
+
+  it("should list registered providers in unknown provider errors", () => {
+    expect(getRegisteredProviders()).toEqual([
+      "firebase",
+      "supabase",
+      "auth0",
+      "nextauth",
+      "token",
+    ]);
+    expect(() => createProviderFromConfig({ provider: "sso" })).toThrow(
+      "Unknown provider: sso. Supported: firebase, supabase, auth0, nextauth, token"
+    );
+  });
+
+  it("should let providers read their state with the exported helpers", () => {
+    // The BaseAuthProvider example from the README
+    class SsoProvider extends BaseAuthProvider {
+      protected readonly name = "SSO";
+
+      protected async authenticate(): Promise<void> {}
+
+      readStoredSession(state: StorageState): StoredSession | undefined {
+        const token = findLocalStorageItem(state, "sso-token");
+        return token ? { accessToken: token } : undefined;
+      }
+    }
+
+    const provider = new SsoProvider();
+    expect(
+      provider.readStoredSession({
+        cookies: [],
+        origins: [
+          {
+            origin: "http://localhost:3000",
+            localStorage: [{ name: "sso-token", value: "token" }],
+          },
+        ],
+      })
+    ).toEqual({ accessToken: "token" });
+    expect(provider.readStoredSession({ cookies: [], origins: [] })).toBeUndefined();
+  });
+
+  it("should reject duplicate registrations", () => {
+    expect(() =>
+      registerProvider("firebase", { create: () => new TokenProvider("") })
+    ).toThrow('Provider "firebase" is already registered');
+  });
+
+  it("should run the shared sign-in steps around authenticate()", async () => {
+    const provider = new TokenProvider("secret");
+    const mockPage = { on: vi.fn(), goto: vi.fn(), reload: vi.fn() };
+
+    await provider.signIn(mockPage as never);
+
+    expect(mockPage.on).toHaveBeenCalledWith("console", expect.any(Function));
+    expect(mockPage.goto).toHaveBeenCalledWith("/", { waitUntil: "networkidle" });
+    expect(mockPage.reload).toHaveBeenCalled();
+
+    provider.persisted = false;
+    await expect(provider.signIn(mockPage as never)).rejects.toThrow(
+      "Token session was not persisted after reload"
+    );
+    await expect(
+      provider.refreshStoredSession({ cookies: [], origins: [] })
+    ).rejects.toThrow("Token provider does not support session refresh");
+  });
+});
+
+describe("Named test users", () => {
+  const multiUserSupabaseConfig: PlaywrightAuthConfig = {
+    provider: "supabase",
+    testUsers: {
+      admin: { email: "admin@example.com", password: "admin-password" },
+      viewer: { email: "viewer@example.com", password: "viewer-password" },
+    },
+    supabase: validSupabaseConfig.supabase,
+  };
+
+  beforeEach(() => {
+    if (!fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.mkdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.rmdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  it("should create provider for a named user", () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(multiUserSupabaseConfig));
+
+    const provider = createProviderFromConfigFile(TEST_CONFIG_PATH, "admin");
+
+    expect(provider).toBeInstanceOf(SupabaseProvider);
+  });
+
+  it("should throw error for unknown named user", () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(multiUserSupabaseConfig));
+
+    expect(() => createProviderFromConfigFile(TEST_CONFIG_PATH, "editor")).toThrow(
+      'Test user "editor" not found in "testUsers". Available: admin, viewer'
+    );
+  });
+
+  it("should throw error when no default testUser is configured", () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(multiUserSupabaseConfig));
+
+    expect(() => createProviderFromConfigFile(TEST_CONFIG_PATH)).toThrow(
+      'Configuration has no default "testUser"'
+    );
+  });
+
+  it("should report the named user path in validation errors", () => {
+    const config = {
+      ...validFirebaseConfig,
+      testUser: undefined,
+      testUsers: { admin: { email: "admin@example.com" } },
+    };
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(config));
+
+    expect(() => FirebaseProvider.fromConfigFile(TEST_CONFIG_PATH, "admin")).toThrow(
+      'Firebase authentication requires "testUsers.admin.uid"'
+    );
+  });
+
+  it("should list the default and named users", () => {
+    expect(getTestUserNames(validFirebaseConfig)).toEqual([undefined]);
+    expect(getTestUserNames(multiUserSupabaseConfig)).toEqual(["admin", "viewer"]);
+  });
+
+  it("should map users to storage state filenames", () => {
+    expect(getStorageStateFileName(undefined)).toBe("user.json");
+    expect(getStorageStateFileName(undefined, "default.json")).toBe("default.json");
+    expect(getStorageStateFileName("admin")).toBe("admin.json");
+  });
+
+  it("should derive a distinct user per worker", () => {
+    const testUser = {
+      email: "e2e@example.com",
+      password: "secret",
+      uid: "e2e-uid",
+      claims: { role: "admin" },
+    };
+
+    expect(deriveWorkerTestUser(testUser, 2)).toEqual({
+      email: "e2e+worker2@example.com",
+      password: "secret",
+      uid: "e2e-uid-worker2",
+      claims: { role: "admin" },
+    });
+    expect(deriveWorkerTestUser({ uid: "e2e-uid" }, 0)).toEqual({
+      uid: "e2e-uid-worker0",
+    });
+  });
+});
+
+describe("Environment configuration", () => {
+  beforeEach(() => {
+    if (!fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.mkdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    if (fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.rmdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  it("should replace ${VAR} placeholders in the config file", () => {
+    vi.stubEnv("TEST_SUPABASE_ANON_KEY", "anon-from-env");
+    const config = {
+      ...validSupabaseConfig,
+      supabase: {
+        url: "https://test-project.supabase.co",
+        anonKey: "${TEST_SUPABASE_ANON_KEY}",
+      },
+    };
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(config));
+
+    expect(loadConfigFile(TEST_CONFIG_PATH).supabase?.anonKey).toBe(
+      "anon-from-env"
+    );
+  });
+
+  it("should report every unset placeholder variable", () => {
+    const config = {
+      ...validSupabaseConfig,
+      testUser: { email: "${TEST_MISSING_EMAIL}", password: "${TEST_MISSING_PASSWORD}" },
+    };
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(config));
+
+    expect(() => createProviderFromConfigFile(TEST_CONFIG_PATH)).toThrow(
+      "Configuration references unset environment variables: TEST_MISSING_EMAIL, TEST_MISSING_PASSWORD"
+    );
+  });
+
+  it("should create SupabaseProvider from environment variables", () => {
+    vi.stubEnv("SUPABASE_URL", "https://test-project.supabase.co");
+    vi.stubEnv("SUPABASE_ANON_KEY", "test-anon-key");
+    vi.stubEnv("TEST_EMAIL", "test@example.com");
+    vi.stubEnv("TEST_PASSWORD", "test-password");
+
+    expect(createProviderFromEnv()).toBeInstanceOf(SupabaseProvider);
+  });
+
+  it("should create FirebaseProvider from environment variables", () => {
+    vi.stubEnv("PLAYWRIGHT_AUTH_PROVIDER", "firebase");
+    vi.stubEnv(
+      "SERVICE_ACCOUNT",
+      JSON.stringify(validFirebaseConfig.firebase?.serviceAccount)
+    );
+    vi.stubEnv("FIREBASE_API_KEY", "test-api-key");
+    vi.stubEnv("FIREBASE_AUTH_DOMAIN", "test-project.firebaseapp.com");
+    vi.stubEnv("FIREBASE_PROJECT_ID", "test-project");
+    vi.stubEnv("TEST_UID", "test-user-uid");
+
+    expect(createProviderFromEnv()).toBeInstanceOf(FirebaseProvider);
+  });
+
+  it("should report missing variables through provider validation", () => {
+    vi.stubEnv("PLAYWRIGHT_AUTH_PROVIDER", "firebase");
+    vi.stubEnv("TEST_UID", "test-user-uid");
+    vi.stubEnv("SERVICE_ACCOUNT", "{}");
+
+    expect(() => createProviderFromEnv()).toThrow(
+      'Firebase clientConfig requires "apiKey"'
+    );
+  });
+});
+
 describe("ensureOutputDir", () => {
   const TEST_OUTPUT_DIR = path.join(TEST_CONFIG_DIR, "output");
 
@@ -397,3 +969,2712 @@ describe("Provider signIn behavior", () => {
     );
   });
 });
+
+describe("Provider.readStoredSession", () => {
+  beforeEach(() => {
+    if (!fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.mkdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.rmdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  it("SupabaseProvider should read the session from localStorage", () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(validSupabaseConfig));
+    const provider = SupabaseProvider.fromConfigFile(TEST_CONFIG_PATH);
+
+    const state: StorageState = {
+      cookies: [],
+      origins: [
+        {
+          origin: "http://localhost:3000",
+          localStorage: [
+            {
+              name: "sb-test-project-auth-token",
+              value: JSON.stringify({
+                access_token: "access",
+                refresh_token: "refresh",
+                expires_at: 1700000000,
+              }),
+            },
+          ],
+        },
+      ],
+    };
+
+    expect(provider.readStoredSession(state)).toEqual({
+      accessToken: "access",
+      refreshToken: "refresh",
+      expiresAt: 1700000000000,
+    });
+  });
+
+  it("FirebaseProvider should read the session from IndexedDB", () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(validFirebaseConfig));
+    const provider = FirebaseProvider.fromConfigFile(TEST_CONFIG_PATH);
+
+    const state: StorageState = {
+      cookies: [],
+      origins: [
+        {
+          origin: "http://localhost:3000",
+          localStorage: [],
+          indexedDB: [
+            {
+              name: "firebaseLocalStorageDb",
+              version: 1,
+              stores: [
+                {
+                  name: "firebaseLocalStorage",
+                  autoIncrement: false,
+                  keyPath: "fbase_key",
+                  indexes: [],
+                  records: [
+                    {
+                      value: {
+                        fbase_key: "firebase:authUser:test-api-key:[DEFAULT]",
+                        value: {
+                          uid: "test-user-uid",
+                          stsTokenManager: {
+                            accessToken: "id-token",
+                            refreshToken: "refresh",
+                            expirationTime: 1700000000000,
+                          },
+                        },
+                      },
+                    },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    expect(provider.readStoredSession(state)).toEqual({
+      accessToken: "id-token",
+      refreshToken: "refresh",
+      expiresAt: 1700000000000,
+    });
+  });
+
+  it.each([
+    ["http://127.0.0.1:54321", undefined, "sb-127-auth-token"],
+    ["http://localhost:54321", undefined, "sb-localhost-auth-token"],
+    ["https://auth.example.com", undefined, "sb-auth-auth-token"],
+    ["https://test-project.supabase.co", "my-app-auth", "my-app-auth"],
+  ])(
+    "SupabaseProvider should use the supabase-js storage key for %s",
+    (url, storageKey, expectedKey) => {
+      const config = {
+        ...validSupabaseConfig,
+        supabase: { url, anonKey: "test-anon-key", storageKey },
+      };
+      fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(config));
+      const provider = SupabaseProvider.fromConfigFile(TEST_CONFIG_PATH);
+
+      const state: StorageState = {
+        cookies: [],
+        origins: [
+          {
+            origin: "http://localhost:3000",
+            localStorage: [
+              {
+                name: expectedKey,
+                value: JSON.stringify({ access_token: "access" }),
+              },
+            ],
+          },
+        ],
+      };
+
+      expect(provider.readStoredSession(state)?.accessToken).toBe("access");
+    }
+  );
+
+  it("should return undefined when no session is stored", () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(validSupabaseConfig));
+    const provider = SupabaseProvider.fromConfigFile(TEST_CONFIG_PATH);
+
+    expect(provider.readStoredSession({ cookies: [], origins: [] })).toBeUndefined();
+  });
+});
+
+describe("Supabase SSR session cookies", () => {
+  const storageKey = "sb-test-project-auth-token";
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    if (!fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.mkdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.rmdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  it("should write a single base64-prefixed cookie for small sessions", () => {
+    const cookies = encodeSessionCookies(storageKey, '{"access_token":"a"}');
+
+    expect(cookies).toHaveLength(1);
+    expect(cookies[0].name).toBe(storageKey);
+    expect(cookies[0].value.startsWith("base64-")).toBe(true);
+    expect(decodeSessionCookies(storageKey, cookies)).toBe('{"access_token":"a"}');
+  });
+
+  it("should split large sessions into numbered chunks", () => {
+    const json = JSON.stringify({ access_token: "x".repeat(5000) });
+    const cookies = encodeSessionCookies(storageKey, json);
+
+    expect(cookies.map((cookie) => cookie.name)).toEqual([
+      `${storageKey}.0`,
+      `${storageKey}.1`,
+      `${storageKey}.2`,
+    ]);
+    expect(cookies.every((cookie) => cookie.value.length <= 3180)).toBe(true);
+    expect(decodeSessionCookies(storageKey, cookies)).toBe(json);
+  });
+
+  it("should add session cookies through the browser context", async () => {
+    const config = {
+      ...validSupabaseConfig,
+      supabase: { ...validSupabaseConfig.supabase, sessionStorage: "cookie" },
+    };
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(config));
+    const provider = SupabaseProvider.fromConfigFile(TEST_CONFIG_PATH);
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: vi.fn().mockResolvedValue({
+        access_token: "access",
+        refresh_token: "refresh",
+        expires_in: 3600,
+        expires_at: 1700000000,
+        user: { email: "test@example.com" },
+      }),
+    });
+
+    let stored: Array<{ name: string; value: string }> = [];
+    const mockContext = {
+      clearCookies: vi.fn(),
+      addCookies: vi.fn(async (cookies) => {
+        stored = cookies;
+      }),
+      cookies: vi.fn(async () => stored),
+    };
+    const mockPage = {
+      on: vi.fn(),
+      goto: vi.fn(),
+      reload: vi.fn(),
+      evaluate: vi.fn(),
+      url: vi.fn().mockReturnValue("http://localhost:3000/"),
+      context: vi.fn().mockReturnValue(mockContext),
+    };
+
+    await provider.signIn(mockPage as never);
+
+    expect(mockPage.evaluate).not.toHaveBeenCalled();
+    expect(mockContext.addCookies).toHaveBeenCalledWith([
+      expect.objectContaining({
+        name: storageKey,
+        domain: "localhost",
+        path: "/",
+        sameSite: "Lax",
+      }),
+    ]);
+    expect(provider.readStoredSession({ cookies: stored as never, origins: [] })).toEqual({
+      accessToken: "access",
+      refreshToken: "refresh",
+      expiresAt: 1700000000000,
+    });
+  });
+});
+
+describe("Supabase user provisioning", () => {
+  const ADMIN_URL = "https://test-project.supabase.co/auth/v1/admin";
+  const provisionConfig: PlaywrightAuthConfig = {
+    ...validSupabaseConfig,
+    testUser: {
+      ...validSupabaseConfig.testUser,
+      appMetadata: { role: "admin" },
+      userMetadata: { name: "Test User" },
+    },
+    supabase: {
+      ...validSupabaseConfig.supabase!,
+      serviceRoleKey: "service-role-key",
+      provision: true,
+    },
+  };
+  const sessionResponse = jsonResponse({
+    access_token: "access",
+    refresh_token: "refresh",
+    expires_in: 3600,
+    expires_at: 1700000000,
+    user: { email: "test@example.com" },
+  });
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    fs.mkdirSync(TEST_CONFIG_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.rmdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  it("should create a missing user before signing in", async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ users: [] }))
+      .mockResolvedValueOnce(jsonResponse({ id: "new-id" }))
+      .mockResolvedValueOnce(sessionResponse);
+
+    await SupabaseProvider.fromConfig(provisionConfig).signIn(
+      createSupabasePage() as never
+    );
+
+    const [lookupUrl, lookupInit] = mockFetch.mock.calls[0];
+    expect(lookupUrl).toBe(`${ADMIN_URL}/users?page=1&per_page=1000`);
+    expect(lookupInit.headers).toMatchObject({
+      apikey: "service-role-key",
+      Authorization: "Bearer service-role-key",
+    });
+
+    const [createUrl, createInit] = mockFetch.mock.calls[1];
+    expect(createUrl).toBe(`${ADMIN_URL}/users`);
+    expect(createInit.method).toBe("POST");
+    expect(JSON.parse(createInit.body)).toEqual({
+      email: "test@example.com",
+      password: "test-password",
+      email_confirm: true,
+      app_metadata: { role: "admin", provisioned_by: "playwright-nextjs-auth" },
+      user_metadata: { name: "Test User" },
+    });
+
+    expect(mockFetch.mock.calls[2][0]).toBe(
+      "https://test-project.supabase.co/auth/v1/token?grant_type=password"
+    );
+  });
+
+  it("should reuse an existing user", async () => {
+    mockFetch
+      .mockResolvedValueOnce(
+        jsonResponse({ users: [{ id: "user-id", email: "Test@Example.com" }] })
+      )
+      .mockResolvedValueOnce(sessionResponse);
+
+    await SupabaseProvider.fromConfig(provisionConfig).signIn(
+      createSupabasePage() as never
+    );
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[1][0]).toContain("grant_type=password");
+  });
+
+  it("should not call the admin API without a service role key", async () => {
+    mockFetch.mockResolvedValueOnce(sessionResponse);
+
+    await SupabaseProvider.fromConfig(validSupabaseConfig).signIn(
+      createSupabasePage() as never
+    );
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not provision with only a service role key", async () => {
+    mockFetch.mockResolvedValueOnce(sessionResponse);
+    const config = {
+      ...provisionConfig,
+      supabase: { ...provisionConfig.supabase!, provision: false },
+    };
+
+    await SupabaseProvider.fromConfig(config).signIn(createSupabasePage() as never);
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(config));
+    await authTeardown({ configPath: TEST_CONFIG_PATH });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][0]).toContain("grant_type=password");
+  });
+
+  it("should require a service role key to provision", () => {
+    const config = {
+      ...provisionConfig,
+      supabase: { ...validSupabaseConfig.supabase!, provision: true },
+    };
+
+    expect(() => SupabaseProvider.fromConfig(config)).toThrow(
+      'Supabase configuration requires "serviceRoleKey" when "provision" is enabled'
+    );
+  });
+
+  it("should delete provisioned users in authTeardown", async () => {
+    mockFetch
+      .mockResolvedValueOnce(
+        jsonResponse({
+          users: [
+            {
+              id: "user-id",
+              email: "test@example.com",
+              app_metadata: { provisioned_by: "playwright-nextjs-auth" },
+            },
+          ],
+        })
+      )
+      .mockResolvedValueOnce(jsonResponse({}));
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(provisionConfig));
+
+    await authTeardown({ configPath: TEST_CONFIG_PATH });
+
+    const [url, init] = mockFetch.mock.calls[1];
+    expect(url).toBe(`${ADMIN_URL}/users/user-id`);
+    expect(init.method).toBe("DELETE");
+  });
+
+  it("should sign in again after authTeardown deleted the user", async () => {
+    const authDir = path.join(TEST_CONFIG_DIR, "auth");
+    const statePath = path.join(authDir, "user.json");
+    const provisionedUsers = jsonResponse({
+      users: [
+        {
+          id: "user-id",
+          email: "test@example.com",
+          app_metadata: { provisioned_by: "playwright-nextjs-auth" },
+        },
+      ],
+    });
+    const setup = () =>
+      authSetup({
+        configPath: TEST_CONFIG_PATH,
+        outputDir: authDir,
+        baseURL: "http://localhost:3000",
+        browserless: true,
+      });
+    const provisionResponses = () =>
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse({ users: [] }))
+        .mockResolvedValueOnce(jsonResponse({ id: "user-id" }))
+        .mockResolvedValueOnce(
+          jsonResponse({
+            access_token: "access",
+            refresh_token: "refresh",
+            expires_in: 3600,
+            expires_at: 4102444800,
+            user: { email: "test@example.com" },
+          })
+        );
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(provisionConfig));
+
+    provisionResponses();
+    await setup();
+    expect(fs.existsSync(statePath)).toBe(true);
+
+    mockFetch
+      .mockResolvedValueOnce(provisionedUsers)
+      .mockResolvedValueOnce(jsonResponse({}));
+    await authTeardown({ configPath: TEST_CONFIG_PATH, outputDir: authDir });
+    expect(fs.existsSync(statePath)).toBe(false);
+
+    provisionResponses();
+    await setup();
+
+    const creates = mockFetch.mock.calls.filter(
+      ([url, init]) => url === `${ADMIN_URL}/users` && init.method === "POST"
+    );
+    expect(creates).toHaveLength(2);
+    expect(fs.existsSync(statePath)).toBe(true);
+  });
+
+  it("should keep existing users in authTeardown", async () => {
+    mockFetch.mockResolvedValueOnce(
+      jsonResponse({
+        users: [
+          { id: "user-id", email: "test@example.com", app_metadata: { provider: "email" } },
+        ],
+      })
+    );
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(provisionConfig));
+
+    await authTeardown({ configPath: TEST_CONFIG_PATH });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report admin API errors", async () => {
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ users: [] }))
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 422,
+        text: vi.fn().mockResolvedValue("Password should be at least 6 characters"),
+      });
+
+    await expect(
+      SupabaseProvider.fromConfig(provisionConfig).signIn(
+        createSupabasePage() as never
+      )
+    ).rejects.toThrow(
+      "Supabase user provisioning failed: 422 - Password should be at least 6 characters"
+    );
+  });
+});
+
+describe("Supabase magic link / OTP sign-in", () => {
+  const BASE_URL = "https://test-project.supabase.co/auth/v1";
+  const linkConfig = (strategy: "magiclink" | "otp"): PlaywrightAuthConfig => ({
+    ...validSupabaseConfig,
+    testUser: { email: "test@example.com" },
+    supabase: {
+      ...validSupabaseConfig.supabase!,
+      strategy,
+      serviceRoleKey: "service-role-key",
+    },
+  });
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    mockFetch
+      .mockResolvedValueOnce(
+        jsonResponse({
+          id: "user-id",
+          hashed_token: "hashed-token",
+          email_otp: "123456",
+        })
+      )
+      .mockResolvedValueOnce(
+        jsonResponse({
+          access_token: "access",
+          refresh_token: "refresh",
+          expires_in: 3600,
+          expires_at: 1700000000,
+          user: { email: "test@example.com" },
+        })
+      );
+  });
+
+  it("should verify the magic link token hash", async () => {
+    const page = createSupabasePage();
+    await SupabaseProvider.fromConfig(linkConfig("magiclink")).signIn(
+      page as never
+    );
+
+    const [linkUrl, linkInit] = mockFetch.mock.calls[0];
+    expect(linkUrl).toBe(`${BASE_URL}/admin/generate_link`);
+    expect(JSON.parse(linkInit.body)).toEqual({
+      type: "magiclink",
+      email: "test@example.com",
+    });
+
+    const [verifyUrl, verifyInit] = mockFetch.mock.calls[1];
+    expect(verifyUrl).toBe(`${BASE_URL}/verify`);
+    expect(verifyInit.headers.apikey).toBe("test-anon-key");
+    expect(JSON.parse(verifyInit.body)).toEqual({
+      type: "magiclink",
+      token_hash: "hashed-token",
+    });
+
+    expect(JSON.parse(page.evaluate.mock.calls[0][1].value)).toMatchObject({
+      access_token: "access",
+      refresh_token: "refresh",
+    });
+  });
+
+  it("should verify the email OTP", async () => {
+    await SupabaseProvider.fromConfig(linkConfig("otp")).signIn(
+      createSupabasePage() as never
+    );
+
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body)).toEqual({
+      type: "email",
+      email: "test@example.com",
+      token: "123456",
+    });
+  });
+
+  it("should require a service role key", () => {
+    const config = linkConfig("magiclink");
+    delete config.supabase!.serviceRoleKey;
+
+    expect(() => SupabaseProvider.fromConfig(config)).toThrow(
+      'Supabase configuration requires "serviceRoleKey" when strategy is "magiclink"'
+    );
+  });
+});
+
+describe("Supabase MFA", () => {
+  const BASE_URL = "https://test-project.supabase.co/auth/v1";
+  // RFC 6238 test secret ("12345678901234567890")
+  const TOTP_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+  const mfaConfig: PlaywrightAuthConfig = {
+    ...validSupabaseConfig,
+    testUser: {
+      ...validSupabaseConfig.testUser,
+      mfa: { totpSecret: TOTP_SECRET },
+    },
+  };
+  const aal1Session = (factors: unknown[]) =>
+    jsonResponse({
+      access_token: "aal1-access",
+      refresh_token: "aal1-refresh",
+      expires_in: 3600,
+      expires_at: 1700000000,
+      user: { email: "test@example.com", factors },
+    });
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should compute RFC 6238 TOTP codes", () => {
+    expect(generateTotp(TOTP_SECRET, 59_000)).toBe("287082");
+    expect(generateTotp(TOTP_SECRET, 1111111109_000)).toBe("081804");
+    expect(generateTotp(TOTP_SECRET.toLowerCase(), 1234567890_000)).toBe(
+      "005924"
+    );
+  });
+
+  it("should verify the TOTP factor and inject the aal2 session", async () => {
+    vi.useFakeTimers({ now: 59_000, toFake: ["Date"] });
+    mockFetch
+      .mockResolvedValueOnce(
+        aal1Session([
+          { id: "phone-factor", factor_type: "phone", status: "verified" },
+          { id: "totp-factor", factor_type: "totp", status: "verified" },
+        ])
+      )
+      .mockResolvedValueOnce(jsonResponse({ id: "challenge-id" }))
+      .mockResolvedValueOnce(
+        jsonResponse({
+          access_token: "aal2-access",
+          refresh_token: "aal2-refresh",
+          expires_in: 3600,
+          user: { email: "test@example.com" },
+        })
+      );
+    const page = createSupabasePage();
+
+    await SupabaseProvider.fromConfig(mfaConfig).signIn(page as never);
+
+    const [challengeUrl, challengeInit] = mockFetch.mock.calls[1];
+    expect(challengeUrl).toBe(`${BASE_URL}/factors/totp-factor/challenge`);
+    expect(challengeInit.headers.Authorization).toBe("Bearer aal1-access");
+
+    const [verifyUrl, verifyInit] = mockFetch.mock.calls[2];
+    expect(verifyUrl).toBe(`${BASE_URL}/factors/totp-factor/verify`);
+    expect(JSON.parse(verifyInit.body)).toEqual({
+      challenge_id: "challenge-id",
+      code: "287082",
+    });
+
+    expect(JSON.parse(page.evaluate.mock.calls[0][1].value)).toMatchObject({
+      access_token: "aal2-access",
+      refresh_token: "aal2-refresh",
+      expires_at: 59 + 3600,
+    });
+  });
+
+  it("should fail without a verified TOTP factor", async () => {
+    mockFetch.mockResolvedValueOnce(
+      aal1Session([
+        { id: "totp-factor", factor_type: "totp", status: "unverified" },
+      ])
+    );
+
+    await expect(
+      SupabaseProvider.fromConfig(mfaConfig).signIn(createSupabasePage() as never)
+    ).rejects.toThrow(
+      "Supabase MFA failed: user test@example.com has no verified TOTP factor"
+    );
+  });
+});
+
+describe("Firebase custom claims", () => {
+  const mockAuth = admin.auth();
+  const adminUser = {
+    ...validFirebaseConfig,
+    testUser: { uid: "test-user-uid", claims: { role: "admin" } },
+  };
+
+  beforeEach(() => {
+    vi.mocked(mockAuth.createCustomToken).mockClear();
+    vi.mocked(mockAuth.setCustomUserClaims).mockClear();
+  });
+
+  it("should pass claims as developer claims", async () => {
+    await FirebaseProvider.fromConfig(adminUser).signIn(
+      createFirebasePage() as never
+    );
+
+    expect(mockAuth.createCustomToken).toHaveBeenCalledWith("test-user-uid", {
+      role: "admin",
+    });
+    expect(mockAuth.setCustomUserClaims).not.toHaveBeenCalled();
+  });
+
+  it("should persist claims with setCustomUserClaims when configured", async () => {
+    const config = {
+      ...adminUser,
+      firebase: { ...adminUser.firebase!, persistClaims: true },
+    };
+
+    await FirebaseProvider.fromConfig(config).signIn(createFirebasePage() as never);
+
+    expect(mockAuth.setCustomUserClaims).toHaveBeenCalledWith("test-user-uid", {
+      role: "admin",
+    });
+    expect(mockAuth.createCustomToken).toHaveBeenCalledWith("test-user-uid");
+  });
+});
+
+describe("Firebase user provisioning", () => {
+  const mockAuth = admin.auth();
+  const provisionConfig: PlaywrightAuthConfig = {
+    ...validFirebaseConfig,
+    testUser: {
+      email: "new@example.com",
+      password: "new-password",
+      displayName: "New User",
+      emailVerified: true,
+      claims: { role: "admin" },
+    },
+    firebase: { ...validFirebaseConfig.firebase!, provision: true },
+  };
+  const userNotFound = Object.assign(new Error("no user"), {
+    code: "auth/user-not-found",
+  });
+
+  beforeEach(() => {
+    vi.mocked(mockAuth.createCustomToken).mockClear();
+    vi.mocked(mockAuth.setCustomUserClaims).mockClear();
+    vi.mocked(mockAuth.getUserByEmail).mockReset();
+    vi.mocked(mockAuth.createUser).mockReset();
+    vi.mocked(mockAuth.deleteUser).mockReset();
+    fs.mkdirSync(TEST_CONFIG_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.rmdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  it("should not require uid when provisioning", () => {
+    expect(() => FirebaseProvider.fromConfig(provisionConfig)).not.toThrow();
+  });
+
+  it("should require email when provisioning", () => {
+    expect(() =>
+      FirebaseProvider.fromConfig({
+        ...provisionConfig,
+        testUser: { password: "new-password" },
+      })
+    ).toThrow('Firebase provisioning requires "testUser.email"');
+  });
+
+  it("should create a missing user and sign in as it", async () => {
+    vi.mocked(mockAuth.getUserByEmail).mockRejectedValue(userNotFound);
+    vi.mocked(mockAuth.createUser).mockResolvedValue({
+      uid: "new-uid",
+    } as never);
+
+    await FirebaseProvider.fromConfig(provisionConfig).signIn(
+      createFirebasePage("new-uid") as never
+    );
+
+    expect(mockAuth.createUser).toHaveBeenCalledWith({
+      uid: undefined,
+      email: "new@example.com",
+      password: "new-password",
+      displayName: "New User",
+      emailVerified: true,
+    });
+    expect(mockAuth.setCustomUserClaims).toHaveBeenCalledWith("new-uid", {
+      role: "admin",
+      provisioned_by: "playwright-nextjs-auth",
+    });
+    expect(mockAuth.createCustomToken).toHaveBeenCalledWith("new-uid", {
+      role: "admin",
+    });
+  });
+
+  it("should keep the provisioning marker when persisting claims", async () => {
+    vi.mocked(mockAuth.getUserByEmail).mockRejectedValue(userNotFound);
+    vi.mocked(mockAuth.createUser).mockResolvedValue({
+      uid: "new-uid",
+    } as never);
+    const config = {
+      ...provisionConfig,
+      firebase: { ...provisionConfig.firebase!, persistClaims: true },
+    };
+
+    await FirebaseProvider.fromConfig(config).signIn(createFirebasePage("new-uid") as never);
+
+    expect(mockAuth.setCustomUserClaims).toHaveBeenLastCalledWith("new-uid", {
+      role: "admin",
+      provisioned_by: "playwright-nextjs-auth",
+    });
+  });
+
+  it("should reuse an existing user", async () => {
+    vi.mocked(mockAuth.getUserByEmail).mockResolvedValue({
+      uid: "existing-uid",
+    } as never);
+
+    await FirebaseProvider.fromConfig(provisionConfig).signIn(
+      createFirebasePage("new-uid") as never
+    );
+
+    expect(mockAuth.createUser).not.toHaveBeenCalled();
+    expect(mockAuth.createCustomToken).toHaveBeenCalledWith("existing-uid", {
+      role: "admin",
+    });
+  });
+
+  it("should delete provisioned users in authTeardown", async () => {
+    vi.mocked(mockAuth.getUserByEmail).mockResolvedValue({
+      uid: "new-uid",
+      customClaims: { provisioned_by: "playwright-nextjs-auth" },
+    } as never);
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(provisionConfig));
+
+    await authTeardown({ configPath: TEST_CONFIG_PATH });
+
+    expect(mockAuth.getUserByEmail).toHaveBeenCalledWith("new@example.com");
+    expect(mockAuth.deleteUser).toHaveBeenCalledWith("new-uid");
+  });
+
+  it("should not delete existing users that provisioning reused", async () => {
+    vi.mocked(mockAuth.getUserByEmail).mockResolvedValue({
+      uid: "existing-uid",
+      customClaims: { role: "admin" },
+    } as never);
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(provisionConfig));
+
+    await authTeardown({ configPath: TEST_CONFIG_PATH });
+
+    expect(mockAuth.deleteUser).not.toHaveBeenCalled();
+  });
+
+  it("should not delete users without provisioning", async () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(validFirebaseConfig));
+
+    await authTeardown({ configPath: TEST_CONFIG_PATH });
+
+    expect(mockAuth.deleteUser).not.toHaveBeenCalled();
+  });
+});
+
+describe("Firebase tenants", () => {
+  const mockAuth = admin.auth();
+  const tenantManager = mockAuth.tenantManager();
+  const tenantAuth = tenantManager.authForTenant("any");
+
+  beforeEach(() => {
+    vi.mocked(mockAuth.createCustomToken).mockClear();
+    vi.mocked(tenantManager.authForTenant).mockClear();
+    vi.mocked(tenantAuth.createCustomToken).mockClear();
+  });
+
+  it("should mint tokens for the tenant and set it in the browser", async () => {
+    const config = {
+      ...validFirebaseConfig,
+      firebase: { ...validFirebaseConfig.firebase!, tenantId: "tenant-a" },
+    };
+    const page = createFirebasePage();
+
+    await FirebaseProvider.fromConfig(config).signIn(page as never);
+
+    expect(tenantManager.authForTenant).toHaveBeenCalledWith("tenant-a");
+    expect(tenantAuth.createCustomToken).toHaveBeenCalledWith("test-user-uid");
+    expect(mockAuth.createCustomToken).not.toHaveBeenCalled();
+    expect(page.evaluate.mock.calls[0][1]).toMatchObject({
+      token: "mock-tenant-token",
+      tenantId: "tenant-a",
+    });
+  });
+
+  it("should prefer the test user's tenant", async () => {
+    const config = {
+      ...validFirebaseConfig,
+      testUser: { uid: "test-user-uid", tenantId: "tenant-b" },
+      firebase: { ...validFirebaseConfig.firebase!, tenantId: "tenant-a" },
+    };
+
+    await FirebaseProvider.fromConfig(config).signIn(
+      createFirebasePage() as never
+    );
+
+    expect(tenantManager.authForTenant).toHaveBeenCalledWith("tenant-b");
+  });
+
+  it("should use the default auth without a tenant", async () => {
+    const page = createFirebasePage();
+
+    await FirebaseProvider.fromConfig(validFirebaseConfig).signIn(
+      page as never
+    );
+
+    expect(tenantManager.authForTenant).not.toHaveBeenCalled();
+    expect(page.evaluate.mock.calls[0][1].tenantId).toBeNull();
+  });
+});
+
+describe("Firebase session cookie", () => {
+  const mockAuth = admin.auth();
+  const EXCHANGE_URL =
+    "https://identitytoolkit.googleapis.com/v1/accounts:signInWithCustomToken?key=test-api-key";
+  const cookieConfig = (
+    sessionCookie: NonNullable<
+      PlaywrightAuthConfig["firebase"]
+    >["sessionCookie"]
+  ): PlaywrightAuthConfig => ({
+    ...validFirebaseConfig,
+    firebase: { ...validFirebaseConfig.firebase!, sessionCookie },
+  });
+  const createMockPage = () => {
+    let stored: Array<{ name: string }> = [];
+    const context = {
+      addCookies: vi.fn(async (cookies) => {
+        stored = cookies;
+      }),
+      cookies: vi.fn(async () => stored),
+    };
+    return {
+      on: vi.fn(),
+      goto: vi.fn(),
+      reload: vi.fn(),
+      waitForTimeout: vi.fn(),
+      addScriptTag: vi.fn(),
+      url: vi.fn().mockReturnValue("https://app.example.com/"),
+      context: vi.fn().mockReturnValue(context),
+      evaluate: vi
+        .fn()
+        .mockResolvedValueOnce({
+          success: true,
+          uid: "test-user-uid",
+          idToken: "browser-id-token",
+          refreshToken: "browser-refresh-token",
+        })
+        .mockResolvedValue([]),
+    };
+  };
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.mocked(mockAuth.createSessionCookie).mockClear();
+  });
+
+  it("should exchange the custom token over REST and add the cookie", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: vi.fn().mockResolvedValue({
+        idToken: "rest-id-token",
+        refreshToken: "rest-refresh-token",
+      }),
+    });
+    const page = createMockPage();
+
+    await FirebaseProvider.fromConfig(
+      cookieConfig({ domain: ".example.com", maxAge: 3600 })
+    ).signIn(page as never);
+
+    expect(page.addScriptTag).not.toHaveBeenCalled();
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe(EXCHANGE_URL);
+    expect(JSON.parse(init.body)).toEqual({
+      token: "mock-custom-token",
+      returnSecureToken: true,
+    });
+    expect(mockAuth.createSessionCookie).toHaveBeenCalledWith("rest-id-token", {
+      expiresIn: 3600 * 1000,
+    });
+    expect(page.context().addCookies).toHaveBeenCalledWith([
+      expect.objectContaining({
+        name: "__session",
+        value: "mock-session-cookie",
+        domain: ".example.com",
+        httpOnly: true,
+        secure: true,
+      }),
+    ]);
+  });
+
+  it("should combine the cookie with the IndexedDB flow", async () => {
+    const page = createMockPage();
+
+    await FirebaseProvider.fromConfig(
+      cookieConfig({ name: "session", indexedDB: true })
+    ).signIn(page as never);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(page.addScriptTag).toHaveBeenCalled();
+    expect(mockAuth.createSessionCookie).toHaveBeenCalledWith(
+      "browser-id-token",
+      { expiresIn: 5 * 24 * 60 * 60 * 1000 }
+    );
+    expect(page.context().addCookies).toHaveBeenCalledWith([
+      expect.objectContaining({ name: "session", domain: "app.example.com" }),
+    ]);
+  });
+
+  it("should read and refresh the session cookie", async () => {
+    const provider = FirebaseProvider.fromConfig(cookieConfig({}));
+    const state: StorageState = {
+      cookies: [
+        {
+          name: "__session",
+          value: "old-cookie",
+          domain: "app.example.com",
+          path: "/",
+          expires: 1700000000,
+          httpOnly: true,
+          secure: true,
+          sameSite: "Lax",
+        },
+      ],
+      origins: [],
+    };
+
+    expect(provider.readStoredSession(state)).toEqual({
+      accessToken: "old-cookie",
+      expiresAt: 1700000000000,
+    });
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: vi.fn().mockResolvedValue({ idToken: "new-id-token" }),
+    });
+    const refreshed = await provider.refreshStoredSession(state);
+
+    expect(mockAuth.createSessionCookie).toHaveBeenCalledWith(
+      "new-id-token",
+      expect.anything()
+    );
+    expect(refreshed.cookies[0]).toMatchObject({
+      name: "__session",
+      value: "mock-session-cookie",
+      domain: "app.example.com",
+    });
+    expect(refreshed.cookies[0].expires).toBeGreaterThan(1700000000);
+  });
+});
+
+describe("Auth0Provider", () => {
+  const TOKEN_URL = "http://localhost:4010/oauth/token";
+  const SECRET = "a-long-random-secret-used-for-cookie-encryption";
+
+  const encodeJwt = (payload: object) =>
+    [{ alg: "RS256", typ: "JWT" }, payload, "signature"]
+      .map((part) =>
+        typeof part === "string"
+          ? part
+          : Buffer.from(JSON.stringify(part)).toString("base64url")
+      )
+      .join(".");
+  const idToken = encodeJwt({
+    iss: "http://localhost:4010/",
+    aud: "test-client-id",
+    exp: 1900000000,
+    sub: "auth0|123",
+    email: "test@example.com",
+  });
+
+  const auth0Config = (auth0: object): PlaywrightAuthConfig => ({
+    provider: "auth0",
+    testUser: { email: "test@example.com", password: "test-password" },
+    auth0: {
+      domain: "http://localhost:4010",
+      clientId: "test-client-id",
+      ...auth0,
+    },
+  });
+
+  const mockTokenResponse = (overrides: object = {}) =>
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: vi.fn().mockResolvedValue({
+        access_token: "access",
+        id_token: idToken,
+        refresh_token: "refresh",
+        scope: "openid profile email offline_access",
+        expires_in: 86400,
+        token_type: "Bearer",
+        ...overrides,
+      }),
+    });
+
+  const createMockPage = () => {
+    let cookies: Array<{ name: string; value: string }> = [];
+    const localStorage: Record<string, string> = {};
+    const context = {
+      clearCookies: vi.fn(),
+      addCookies: vi.fn(async (added) => {
+        cookies = [...cookies, ...added];
+      }),
+      cookies: vi.fn(async () => cookies),
+    };
+    return {
+      localStorage,
+      on: vi.fn(),
+      goto: vi.fn(),
+      reload: vi.fn(),
+      url: vi.fn().mockReturnValue("http://localhost:3000/"),
+      context: vi.fn().mockReturnValue(context),
+      evaluate: vi.fn(async (fn, arg) => {
+        if (Array.isArray(arg)) {
+          for (const { name, value } of arg) localStorage[name] = value;
+          return undefined;
+        }
+        return localStorage[arg] ?? null;
+      }),
+    };
+  };
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should build the SPA storage state without a browser", async () => {
+    mockTokenResponse();
+    const provider = Auth0Provider.fromConfig(auth0Config({}));
+
+    const state = await provider.createStorageState("https://app.example.com");
+
+    expect(state.origins).toHaveLength(1);
+    expect(state.origins[0].origin).toBe("https://app.example.com");
+    expect(state.cookies).toEqual([
+      expect.objectContaining({
+        name: "auth0.test-client-id.is.authenticated",
+        value: "true",
+        domain: "app.example.com",
+        secure: true,
+      }),
+    ]);
+    expect(provider.readStoredSession(state)?.accessToken).toBe("access");
+  });
+
+  it("should build the nextjs storage state without a browser", async () => {
+    mockTokenResponse();
+    const provider = Auth0Provider.fromConfig(
+      auth0Config({ sdk: "nextjs", nextjs: { secret: SECRET } })
+    );
+
+    const state = await provider.createStorageState("http://localhost:3000");
+
+    expect(state.origins).toEqual([]);
+    expect(state.cookies[0]).toMatchObject({
+      name: "__session",
+      domain: "localhost",
+      httpOnly: true,
+    });
+    expect(provider.readStoredSession(state)?.accessToken).toBe("access");
+  });
+
+  it("should request tokens with the password-realm grant", async () => {
+    const provider = Auth0Provider.fromConfig(
+      auth0Config({ audience: "https://api.example.com", clientSecret: "s3cret" })
+    );
+    mockTokenResponse();
+
+    await provider.signIn(createMockPage() as never);
+
+    expect(mockFetch).toHaveBeenCalledWith(TOKEN_URL, expect.anything());
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+      client_id: "test-client-id",
+      client_secret: "s3cret",
+      grant_type: "http://auth0.com/oauth/grant-type/password-realm",
+      username: "test@example.com",
+      password: "test-password",
+      realm: "Username-Password-Authentication",
+      scope: "openid profile email offline_access",
+      audience: "https://api.example.com",
+    });
+  });
+
+  it("should write the auth0-spa-js cache for SPA apps", async () => {
+    const provider = Auth0Provider.fromConfig(auth0Config({}));
+    const mockPage = createMockPage();
+    mockTokenResponse();
+
+    await provider.signIn(mockPage as never);
+
+    const tokenKey =
+      "@@auth0spajs@@::test-client-id::default::openid profile email offline_access";
+    const entry = JSON.parse(mockPage.localStorage[tokenKey]);
+    expect(entry.body).toMatchObject({
+      access_token: "access",
+      refresh_token: "refresh",
+      client_id: "test-client-id",
+      audience: "default",
+    });
+    const user = JSON.parse(
+      mockPage.localStorage["@@auth0spajs@@::test-client-id::@@user@@"]
+    );
+    expect(user.decodedToken.user).toEqual({
+      sub: "auth0|123",
+      email: "test@example.com",
+    });
+    expect(user.decodedToken.claims.__raw).toBe(idToken);
+    expect(mockPage.context().addCookies).toHaveBeenCalledWith([
+      expect.objectContaining({
+        name: "auth0.test-client-id.is.authenticated",
+        value: "true",
+      }),
+    ]);
+
+    const state: StorageState = {
+      cookies: [],
+      origins: [
+        {
+          origin: "http://localhost:3000",
+          localStorage: Object.entries(mockPage.localStorage).map(
+            ([name, value]) => ({ name, value })
+          ),
+        },
+      ],
+    };
+    expect(provider.readStoredSession(state)).toEqual({
+      accessToken: "access",
+      refreshToken: "refresh",
+      expiresAt: entry.expiresAt * 1000,
+    });
+
+    mockTokenResponse({ access_token: "new-access", refresh_token: undefined });
+    const refreshed = await provider.refreshStoredSession(state);
+    expect(provider.readStoredSession(refreshed)).toMatchObject({
+      accessToken: "new-access",
+      refreshToken: "refresh",
+    });
+  });
+
+  it("should encrypt the @auth0/nextjs-auth0 v4 session cookie", async () => {
+    const provider = Auth0Provider.fromConfig(
+      auth0Config({ sdk: "nextjs", nextjs: { secret: SECRET } })
+    );
+    const mockPage = createMockPage();
+    mockTokenResponse();
+
+    await provider.signIn(mockPage as never);
+
+    const cookies = await mockPage.context().cookies();
+    expect(cookies).toEqual([
+      expect.objectContaining({ name: "__session", httpOnly: true }),
+    ]);
+    expect(decryptSessionCookie(cookies[0].value, SECRET)).toMatchObject({
+      user: { sub: "auth0|123", email: "test@example.com" },
+      tokenSet: { accessToken: "access", idToken, refreshToken: "refresh" },
+    });
+    expect(
+      provider.readStoredSession({ cookies: cookies as never, origins: [] })
+    ).toMatchObject({ accessToken: "access", refreshToken: "refresh" });
+  });
+
+  it("should use the v3 cookie name and header timestamps", async () => {
+    const provider = Auth0Provider.fromConfig(
+      auth0Config({ sdk: "nextjs", nextjs: { secret: SECRET, version: 3 } })
+    );
+    const mockPage = createMockPage();
+    mockTokenResponse();
+
+    await provider.signIn(mockPage as never);
+
+    const [cookie] = await mockPage.context().cookies();
+    expect(cookie.name).toBe("appSession");
+    const header = JSON.parse(
+      Buffer.from(cookie.value.split(".")[0], "base64url").toString()
+    );
+    expect(header).toMatchObject({ alg: "dir", enc: "A256GCM" });
+    expect(header.uat).toBe(header.iat);
+    expect(decryptSessionCookie(cookie.value, SECRET)).toMatchObject({
+      accessToken: "access",
+      idToken,
+    });
+    expect(decryptSessionCookie(cookie.value, "wrong-secret")).toBeUndefined();
+  });
+
+  it("should report Auth0 configuration problems together", () => {
+    const config = {
+      ...auth0Config({ sdk: "nextjs" }),
+      testUser: { email: "test@example.com" },
+    };
+
+    expect(() => createProviderFromConfig(config)).toThrow(
+      /\$\.testUser: Auth0 authentication requires "testUser\.email" and "testUser\.password"[\s\S]*\$\.auth0\.nextjs: Auth0 configuration requires "nextjs" when sdk is "nextjs"/
+    );
+  });
+
+  it("should throw error on token endpoint failure", async () => {
+    const provider = Auth0Provider.fromConfig(auth0Config({}));
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 403,
+      text: vi.fn().mockResolvedValue('{"error":"invalid_grant"}'),
+    });
+
+    await expect(provider.signIn(createMockPage() as never)).rejects.toThrow(
+      "Auth0 authentication failed: 403"
+    );
+  });
+});
+
+describe("NextAuthProvider", () => {
+  const createMockPage = (cookies: Array<{ name: string; value: string }>) => ({
+    on: vi.fn(),
+    goto: vi.fn(),
+    reload: vi.fn(),
+    url: vi.fn().mockReturnValue("http://localhost:3000/"),
+    // Run the page function in Node against the mocked fetch
+    evaluate: vi.fn(async (fn, arg) => fn(arg)),
+    context: vi.fn().mockReturnValue({ cookies: vi.fn(async () => cookies) }),
+  });
+
+  const mockCredentialsFlow = (
+    url: string,
+    session: object = { user: { name: "alice" } }
+  ) => {
+    mockFetch
+      .mockResolvedValueOnce({
+        json: vi.fn().mockResolvedValue({ csrfToken: "csrf" }),
+      })
+      .mockResolvedValueOnce({
+        status: 200,
+        json: vi.fn().mockResolvedValue({ url }),
+      })
+      .mockResolvedValueOnce({ json: vi.fn().mockResolvedValue(session) });
+  };
+
+  const sessionCookie = { name: "authjs.session-token", value: "jwt" };
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  it("should post arbitrary credentials to the configured provider", async () => {
+    const provider = NextAuthProvider.fromConfig({
+      provider: "nextauth",
+      testUser: { credentials: { username: "alice", password: "secret" } },
+      nextAuth: { basePath: "/auth/", providerId: "password" },
+    });
+    mockCredentialsFlow("http://localhost:3000/");
+
+    await provider.signIn(createMockPage([sessionCookie]) as never);
+
+    expect(mockFetch).toHaveBeenNthCalledWith(1, "/auth/csrf");
+    const [url, init] = mockFetch.mock.calls[1];
+    expect(url).toBe("/auth/callback/password");
+    expect(Object.fromEntries(init.body)).toEqual({
+      username: "alice",
+      password: "secret",
+      csrfToken: "csrf",
+      callbackUrl: "/",
+      json: "true",
+    });
+    expect(mockFetch).toHaveBeenNthCalledWith(3, "/auth/session");
+  });
+
+  it("should fail when no session cookie is set", async () => {
+    const provider = NextAuthProvider.fromConfig({
+      provider: "nextauth",
+      testUser: { email: "test@example.com", password: "secret" },
+    });
+    mockCredentialsFlow("http://localhost:3000/");
+
+    await expect(provider.signIn(createMockPage([]) as never)).rejects.toThrow(
+      "NextAuth sign in failed: session cookie was not set"
+    );
+    expect(Object.fromEntries(mockFetch.mock.calls[1][1].body)).toMatchObject({
+      email: "test@example.com",
+      password: "secret",
+    });
+  });
+
+  it("should fail when redirected to the error page", async () => {
+    const provider = NextAuthProvider.fromConfig({
+      provider: "nextauth",
+      testUser: { email: "test@example.com", password: "wrong" },
+    });
+    mockCredentialsFlow(
+      "http://localhost:3000/api/auth/error?error=CredentialsSignin",
+      {}
+    );
+
+    await expect(
+      provider.signIn(createMockPage([sessionCookie]) as never)
+    ).rejects.toThrow(
+      "NextAuth sign in failed: redirected to /api/auth/error (CredentialsSignin)"
+    );
+  });
+
+  it("should fail when the session has no user", async () => {
+    const provider = NextAuthProvider.fromConfig({
+      provider: "nextauth",
+      testUser: { email: "test@example.com", password: "secret" },
+    });
+    mockCredentialsFlow("http://localhost:3000/", {});
+
+    await expect(
+      provider.signIn(createMockPage([sessionCookie]) as never)
+    ).rejects.toThrow("NextAuth sign in failed: no user in /api/auth/session");
+  });
+
+  it("should fail Firebase sign-in only when NextAuth is required", async () => {
+    const createSessionPage = () => ({
+      ...createMockPage([]),
+      waitForTimeout: vi.fn(),
+      addScriptTag: vi.fn(),
+      evaluate: vi
+        .fn()
+        .mockResolvedValueOnce({
+          success: true,
+          uid: "test-user-uid",
+          idToken: "id-token",
+          refreshToken: "refresh-token",
+        })
+        .mockResolvedValueOnce({ status: 302, hasUser: false })
+        .mockResolvedValue([]),
+    });
+    const nextAuth = { enabled: true };
+
+    await expect(
+      FirebaseProvider.fromConfig({ ...validFirebaseConfig, nextAuth }).signIn(
+        createSessionPage() as never
+      )
+    ).resolves.toBeUndefined();
+    await expect(
+      FirebaseProvider.fromConfig({
+        ...validFirebaseConfig,
+        nextAuth: { ...nextAuth, required: true },
+      }).signIn(createSessionPage() as never)
+    ).rejects.toThrow("NextAuth sign in failed: no user in /api/auth/session");
+  });
+
+  it("should read chunked v4 and v5 session cookies", () => {
+    const provider = NextAuthProvider.fromConfig({
+      provider: "nextauth",
+      testUser: { email: "test@example.com", password: "secret" },
+    });
+
+    expect(
+      provider.readStoredSession({
+        cookies: [
+          { name: "__Secure-authjs.session-token.1", value: "b", expires: 1900000000 },
+          { name: "__Secure-authjs.session-token.0", value: "a", expires: 1900000000 },
+        ] as never,
+        origins: [],
+      })
+    ).toEqual({ accessToken: "ab", expiresAt: 1900000000000 });
+    expect(
+      provider.readStoredSession({
+        cookies: [{ name: "next-auth.session-token", value: "jwt", expires: -1 }] as never,
+        origins: [],
+      })
+    ).toEqual({ accessToken: "jwt", expiresAt: undefined });
+  });
+
+  it("should require credentials for the test user", () => {
+    expect(() =>
+      createProviderFromConfig({ provider: "nextauth", testUser: { uid: "x" } })
+    ).toThrow(
+      'NextAuth authentication requires "testUser.credentials" or "testUser.email" and "testUser.password"'
+    );
+  });
+});
+
+describe("Firebase SDK injection", () => {
+  const SDK_DIR = path.join(TEST_CONFIG_DIR, "firebase-sdk");
+
+  const createMockPage = () => ({
+    on: vi.fn(),
+    goto: vi.fn(),
+    reload: vi.fn(),
+    waitForTimeout: vi.fn(),
+    url: vi.fn().mockReturnValue("http://localhost:3000/"),
+    route: vi.fn(),
+    unroute: vi.fn(),
+    addScriptTag: vi.fn(),
+    evaluate: vi
+      .fn()
+      .mockResolvedValueOnce({ success: true, uid: "test-user-uid" })
+      .mockResolvedValue([]),
+  });
+
+  beforeEach(() => {
+    fs.mkdirSync(SDK_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.rmdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  it("should load the configured SDK version from the CDN", async () => {
+    const config = {
+      ...validFirebaseConfig,
+      firebase: { ...validFirebaseConfig.firebase, sdk: { version: "11.0.2" } },
+    };
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(config));
+    const provider = FirebaseProvider.fromConfigFile(TEST_CONFIG_PATH);
+    const mockPage = createMockPage();
+
+    await provider.signIn(mockPage as never);
+
+    expect(mockPage.addScriptTag).toHaveBeenCalledWith({
+      url: "https://www.gstatic.com/firebasejs/11.0.2/firebase-app-compat.js",
+    });
+    expect(mockPage.addScriptTag).toHaveBeenCalledWith({
+      url: "https://www.gstatic.com/firebasejs/11.0.2/firebase-auth-compat.js",
+    });
+  });
+
+  it("should serve local SDK files on the app origin", async () => {
+    fs.writeFileSync(path.join(SDK_DIR, "firebase-app-compat.js"), "");
+    fs.writeFileSync(path.join(SDK_DIR, "firebase-auth-compat.js"), "");
+    const config = {
+      ...validFirebaseConfig,
+      firebase: {
+        ...validFirebaseConfig.firebase,
+        sdk: { source: "local", localPath: SDK_DIR },
+      },
+    };
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(config));
+    const provider = FirebaseProvider.fromConfigFile(TEST_CONFIG_PATH);
+    const mockPage = createMockPage();
+
+    await provider.signIn(mockPage as never);
+
+    const url = "http://localhost:3000/__playwright-auth/firebase/firebase-app-compat.js";
+    expect(mockPage.route).toHaveBeenCalledWith(url, expect.any(Function));
+    expect(mockPage.addScriptTag).toHaveBeenCalledWith({ url });
+    expect(mockPage.addScriptTag).not.toHaveBeenCalledWith({
+      url: expect.stringContaining("gstatic.com"),
+    });
+  });
+
+  it("should throw error when a local SDK file is missing", async () => {
+    const config = {
+      ...validFirebaseConfig,
+      firebase: {
+        ...validFirebaseConfig.firebase,
+        sdk: { source: "local", localPath: SDK_DIR },
+      },
+    };
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(config));
+    const provider = FirebaseProvider.fromConfigFile(TEST_CONFIG_PATH);
+
+    await expect(provider.signIn(createMockPage() as never)).rejects.toThrow(
+      "Firebase SDK file not found"
+    );
+  });
+});
+
+describe("authSetup storage state reuse", () => {
+  const AUTH_DIR = path.join(TEST_CONFIG_DIR, "auth");
+
+  const writeSupabaseState = (fileName: string, expiresAt: number) => {
+    const state: StorageState = {
+      cookies: [],
+      origins: [
+        {
+          origin: "http://localhost:3000",
+          localStorage: [
+            {
+              name: "sb-test-project-auth-token",
+              value: JSON.stringify({
+                access_token: "access",
+                refresh_token: "refresh",
+                expires_at: expiresAt,
+              }),
+            },
+          ],
+        },
+      ],
+    };
+    fs.writeFileSync(path.join(AUTH_DIR, fileName), JSON.stringify(state));
+  };
+
+  const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+  beforeEach(() => {
+    mockLaunch.mockReset();
+    fs.mkdirSync(AUTH_DIR, { recursive: true });
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(validSupabaseConfig));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.rmdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  it("should skip sign-in when the saved session is still valid", async () => {
+    writeSupabaseState("user.json", nowSeconds() + 3600);
+
+    await authSetup({ configPath: TEST_CONFIG_PATH, outputDir: AUTH_DIR });
+
+    expect(mockLaunch).not.toHaveBeenCalled();
+  });
+
+  it("should sign in again when the session expires too soon", async () => {
+    writeSupabaseState("user.json", nowSeconds() + 60);
+    mockLaunch.mockRejectedValue(new Error("launch called"));
+
+    await expect(
+      authSetup({ configPath: TEST_CONFIG_PATH, outputDir: AUTH_DIR })
+    ).rejects.toThrow("launch called");
+  });
+
+  it("should honor minSessionValidity", async () => {
+    writeSupabaseState("user.json", nowSeconds() + 60);
+
+    await authSetup({
+      configPath: TEST_CONFIG_PATH,
+      outputDir: AUTH_DIR,
+      minSessionValidity: 30,
+    });
+
+    expect(mockLaunch).not.toHaveBeenCalled();
+  });
+
+  it("should refresh expiring sessions when refreshSessions is set", async () => {
+    writeSupabaseState("user.json", nowSeconds() + 60);
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: vi.fn().mockResolvedValue({
+        access_token: "new-access",
+        refresh_token: "new-refresh",
+        expires_in: 3600,
+        expires_at: nowSeconds() + 3600,
+        user: { email: "test@example.com" },
+      }),
+    });
+
+    await authSetup({
+      configPath: TEST_CONFIG_PATH,
+      outputDir: AUTH_DIR,
+      refreshSessions: true,
+    });
+
+    expect(mockLaunch).not.toHaveBeenCalled();
+    expect(mockFetch).toHaveBeenCalledWith(
+      "https://test-project.supabase.co/auth/v1/token?grant_type=refresh_token",
+      expect.objectContaining({
+        body: JSON.stringify({ refresh_token: "refresh" }),
+      })
+    );
+  });
+
+  it("should sign in again when reuse is disabled", async () => {
+    writeSupabaseState("user.json", nowSeconds() + 3600);
+    mockLaunch.mockRejectedValue(new Error("launch called"));
+
+    await expect(
+      authSetup({
+        configPath: TEST_CONFIG_PATH,
+        outputDir: AUTH_DIR,
+        reuseStorageState: false,
+      })
+    ).rejects.toThrow("launch called");
+  });
+});
+
+describe("authSetup browser options", () => {
+  const AUTH_DIR = path.join(TEST_CONFIG_DIR, "auth");
+  const createMockPage = () => {
+    const context = { storageState: vi.fn(), close: vi.fn() };
+    return {
+      on: vi.fn(),
+      goto: vi.fn(),
+      reload: vi.fn(),
+      evaluate: vi.fn().mockResolvedValue("session"),
+      context: vi.fn().mockReturnValue(context),
+    };
+  };
+  const createMockBrowser = () => {
+    const page = createMockPage();
+    return {
+      page,
+      newContext: vi.fn().mockResolvedValue({
+        ...page.context(),
+        newPage: vi.fn().mockResolvedValue(page),
+      }),
+      close: vi.fn(),
+    };
+  };
+
+  beforeEach(() => {
+    mockLaunch.mockReset();
+    mockFirefoxLaunch.mockReset();
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: vi.fn().mockResolvedValue({
+        access_token: "access",
+        refresh_token: "refresh",
+        expires_in: 3600,
+        expires_at: 1700000000,
+        user: { email: "test@example.com" },
+      }),
+    });
+    fs.mkdirSync(TEST_CONFIG_DIR, { recursive: true });
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(validSupabaseConfig));
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.rmdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  it("should launch the chosen browser with launch and context options", async () => {
+    const browser = createMockBrowser();
+    mockFirefoxLaunch.mockResolvedValue(browser);
+
+    await authSetup({
+      configPath: TEST_CONFIG_PATH,
+      outputDir: AUTH_DIR,
+      baseURL: "http://localhost:3000",
+      browserName: "firefox",
+      launchOptions: { proxy: { server: "http://proxy:3128" } },
+      contextOptions: {
+        locale: "de-DE",
+        httpCredentials: { username: "user", password: "pass" },
+      },
+    });
+
+    expect(mockLaunch).not.toHaveBeenCalled();
+    expect(mockFirefoxLaunch).toHaveBeenCalledWith({
+      proxy: { server: "http://proxy:3128" },
+    });
+    expect(browser.newContext).toHaveBeenCalledWith({
+      baseURL: "http://localhost:3000",
+      ignoreHTTPSErrors: true,
+      locale: "de-DE",
+      httpCredentials: { username: "user", password: "pass" },
+    });
+    expect(browser.close).toHaveBeenCalled();
+  });
+
+  it("should use a given browser without closing it", async () => {
+    const browser = createMockBrowser();
+
+    await authSetup({
+      configPath: TEST_CONFIG_PATH,
+      outputDir: AUTH_DIR,
+      browser: browser as never,
+    });
+
+    expect(mockLaunch).not.toHaveBeenCalled();
+    expect(browser.newContext).toHaveBeenCalled();
+    expect(browser.close).not.toHaveBeenCalled();
+  });
+
+  it("should sign in with a setup project page", async () => {
+    const page = createMockPage();
+
+    await authSetup({
+      configPath: TEST_CONFIG_PATH,
+      outputDir: AUTH_DIR,
+      page: page as never,
+    });
+
+    expect(mockLaunch).not.toHaveBeenCalled();
+    expect(page.goto).toHaveBeenCalled();
+    expect(page.context().storageState).toHaveBeenCalledWith({
+      path: path.join(AUTH_DIR, "user.json"),
+      indexedDB: true,
+    });
+    expect(page.context().close).not.toHaveBeenCalled();
+  });
+
+  it("should reject a page for several test users", async () => {
+    fs.writeFileSync(
+      TEST_CONFIG_PATH,
+      JSON.stringify({
+        ...validSupabaseConfig,
+        testUsers: { admin: { email: "admin@example.com", password: "pw" } },
+      })
+    );
+
+    await expect(
+      authSetup({
+        configPath: TEST_CONFIG_PATH,
+        outputDir: AUTH_DIR,
+        page: createMockPage() as never,
+      })
+    ).rejects.toThrow('authSetup with "page" supports a single test user');
+  });
+});
+
+describe("authSetup browserless", () => {
+  const AUTH_DIR = path.join(TEST_CONFIG_DIR, "auth");
+  const mockSessionResponse = () =>
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: vi.fn().mockResolvedValue({
+        access_token: "access",
+        refresh_token: "refresh",
+        expires_in: 3600,
+        expires_at: 1700000000,
+        user: { email: "test@example.com" },
+      }),
+    });
+  const readState = (fileName: string) =>
+    JSON.parse(
+      fs.readFileSync(path.join(AUTH_DIR, fileName), "utf-8")
+    ) as StorageState;
+
+  beforeEach(() => {
+    mockLaunch.mockReset();
+    mockFetch.mockReset();
+    fs.mkdirSync(TEST_CONFIG_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.rmdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  it("should write the Supabase session to localStorage without a browser", async () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(validSupabaseConfig));
+    mockSessionResponse();
+
+    await authSetup({
+      configPath: TEST_CONFIG_PATH,
+      outputDir: AUTH_DIR,
+      baseURL: "http://localhost:3000",
+      browserless: true,
+    });
+
+    expect(mockLaunch).not.toHaveBeenCalled();
+    const state = readState("user.json");
+    expect(state.cookies).toEqual([]);
+    expect(state.origins).toEqual([
+      {
+        origin: "http://localhost:3000",
+        localStorage: [
+          {
+            name: "sb-test-project-auth-token",
+            value: expect.stringContaining('"access_token":"access"'),
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should write @supabase/ssr cookies without a browser", async () => {
+    const config = {
+      ...validSupabaseConfig,
+      supabase: { ...validSupabaseConfig.supabase, sessionStorage: "cookie" },
+    };
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(config));
+    mockSessionResponse();
+
+    await authSetup({
+      configPath: TEST_CONFIG_PATH,
+      outputDir: AUTH_DIR,
+      baseURL: "http://localhost:3000/app",
+      browserless: true,
+    });
+
+    const state = readState("user.json");
+    expect(state.origins).toEqual([]);
+    expect(state.cookies).toEqual([
+      expect.objectContaining({
+        name: "sb-test-project-auth-token",
+        domain: "localhost",
+        path: "/",
+        secure: false,
+        sameSite: "Lax",
+      }),
+    ]);
+  });
+
+  it("should use a configuration object instead of a file", async () => {
+    mockSessionResponse();
+
+    await authSetup({
+      config: validSupabaseConfig,
+      outputDir: AUTH_DIR,
+      baseURL: "http://localhost:3000",
+      browserless: true,
+    });
+
+    expect(readState("user.json").origins).toHaveLength(1);
+  });
+
+  it("should reject a storageStateFile that collides with a named user", async () => {
+    await expect(
+      authSetup({
+        config: {
+          ...validSupabaseConfig,
+          testUsers: {
+            admin: { email: "admin@example.com", password: "secret" },
+          },
+        },
+        outputDir: AUTH_DIR,
+        storageStateFile: "admin.json",
+        baseURL: "http://localhost:3000",
+        browserless: true,
+      })
+    ).rejects.toThrow(
+      `testUsers.admin and testUser would both be saved to ${path.join(AUTH_DIR, "admin.json")}`
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should reject providers without createStorageState", async () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(validFirebaseConfig));
+
+    await expect(
+      authSetup({
+        configPath: TEST_CONFIG_PATH,
+        outputDir: AUTH_DIR,
+        baseURL: "http://localhost:3000",
+        browserless: true,
+      })
+    ).rejects.toThrow(
+      "Browserless setup is not supported by the provider of testUser"
+    );
+  });
+
+  it("should require baseURL", async () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(validSupabaseConfig));
+
+    await expect(
+      authSetup({
+        configPath: TEST_CONFIG_PATH,
+        outputDir: AUTH_DIR,
+        browserless: true,
+      })
+    ).rejects.toThrow('Browserless setup requires "baseURL"');
+  });
+});
+
+describe("Sign-out and session revocation", () => {
+  const mockAuth = admin.auth();
+  const AUTH_DIR = path.join(TEST_CONFIG_DIR, "auth");
+  const logoutResponse = () =>
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 204 });
+  const createMockPage = (url = "http://localhost:3000/dashboard") => {
+    const context = {
+      clearCookies: vi.fn(),
+      storageState: vi.fn().mockResolvedValue(supabaseStorageState("access", 4102444800)),
+    };
+    return {
+      url: vi.fn().mockReturnValue(url),
+      goto: vi.fn(),
+      evaluate: vi.fn(),
+      reload: vi.fn(),
+      context: () => context,
+    };
+  };
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.mocked(mockAuth.revokeRefreshTokens).mockClear();
+    fs.mkdirSync(TEST_CONFIG_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.rmdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  it("SupabaseProvider should log out the stored session", async () => {
+    logoutResponse();
+
+    await SupabaseProvider.fromConfig(validSupabaseConfig).revoke(
+      supabaseStorageState("access", 4102444800)
+    );
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      "https://test-project.supabase.co/auth/v1/logout?scope=global",
+      {
+        method: "POST",
+        headers: {
+          apikey: "test-anon-key",
+          Authorization: "Bearer access",
+        },
+      }
+    );
+  });
+
+  it("SupabaseProvider should refresh an expired session before logging out", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: vi.fn().mockResolvedValue({
+        access_token: "new-access",
+        refresh_token: "new-refresh",
+        expires_in: 3600,
+        expires_at: 4102444800,
+        user: {},
+      }),
+    });
+    logoutResponse();
+
+    await SupabaseProvider.fromConfig(validSupabaseConfig).revoke(
+      supabaseStorageState("access", 1700000000)
+    );
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[1][1].headers.Authorization).toBe(
+      "Bearer new-access"
+    );
+  });
+
+  it("SupabaseProvider should report a failed logout", async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 500,
+      text: vi.fn().mockResolvedValue("boom"),
+    });
+
+    await expect(
+      SupabaseProvider.fromConfig(validSupabaseConfig).revoke(
+        supabaseStorageState("access", 4102444800)
+      )
+    ).rejects.toThrow("Supabase session revocation failed: 500 - boom");
+  });
+
+  it("SupabaseProvider signOut should clear the browser only", async () => {
+    const page = createMockPage();
+
+    await SupabaseProvider.fromConfig(validSupabaseConfig).signOut(
+      page as never
+    );
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(page.context().clearCookies).toHaveBeenCalled();
+    expect(page.evaluate).toHaveBeenCalledTimes(1);
+    expect(page.goto).not.toHaveBeenCalled();
+    expect(page.reload).toHaveBeenCalled();
+  });
+
+  it("FirebaseProvider signOut should navigate first and clear IndexedDB", async () => {
+    const page = createMockPage("about:blank");
+
+    await FirebaseProvider.fromConfig(validFirebaseConfig).signOut(
+      page as never
+    );
+
+    expect(page.goto).toHaveBeenCalledWith("/", { waitUntil: "networkidle" });
+    expect(page.context().clearCookies).toHaveBeenCalled();
+    expect(page.evaluate).toHaveBeenCalledTimes(2);
+    expect(page.evaluate).toHaveBeenLastCalledWith(expect.any(Function), {
+      dbName: "firebaseLocalStorageDb",
+      storeName: "firebaseLocalStorage",
+    });
+  });
+
+  it("FirebaseProvider should revoke the refresh tokens of the user", async () => {
+    await FirebaseProvider.fromConfig(validFirebaseConfig).revoke({
+      cookies: [],
+      origins: [],
+    });
+
+    expect(mockAuth.revokeRefreshTokens).toHaveBeenCalledWith("test-user-uid");
+  });
+
+  it("authTeardown should revoke saved sessions and delete the files with revokeSessions", async () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(validSupabaseConfig));
+    fs.mkdirSync(AUTH_DIR, { recursive: true });
+    const statePath = path.join(AUTH_DIR, "user.json");
+    fs.writeFileSync(statePath, JSON.stringify(supabaseStorageState("access", 4102444800)));
+    logoutResponse();
+
+    await authTeardown({
+      configPath: TEST_CONFIG_PATH,
+      outputDir: AUTH_DIR,
+      revokeSessions: true,
+    });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(fs.existsSync(statePath)).toBe(false);
+  });
+
+  it("authTeardown should keep sessions by default", async () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(validSupabaseConfig));
+    fs.mkdirSync(AUTH_DIR, { recursive: true });
+    const statePath = path.join(AUTH_DIR, "user.json");
+    fs.writeFileSync(statePath, JSON.stringify(supabaseStorageState("access", 4102444800)));
+
+    await authTeardown({ configPath: TEST_CONFIG_PATH, outputDir: AUTH_DIR });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(fs.existsSync(statePath)).toBe(true);
+  });
+
+  it("authTeardown should clean up every user before reporting failures", async () => {
+    fs.writeFileSync(
+      TEST_CONFIG_PATH,
+      JSON.stringify({
+        ...validSupabaseConfig,
+        testUsers: { admin: { email: "admin@example.com", password: "secret" } },
+      })
+    );
+    fs.mkdirSync(AUTH_DIR, { recursive: true });
+    for (const fileName of ["user.json", "admin.json"]) {
+      fs.writeFileSync(
+        path.join(AUTH_DIR, fileName),
+        JSON.stringify(supabaseStorageState("access", 4102444800))
+      );
+    }
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 500,
+      text: vi.fn().mockResolvedValue("boom"),
+    });
+    logoutResponse();
+
+    await expect(
+      authTeardown({
+        configPath: TEST_CONFIG_PATH,
+        outputDir: AUTH_DIR,
+        revokeSessions: true,
+      })
+    ).rejects.toThrow(
+      "authTeardown failed for 1 user(s):\ntestUser: Supabase session revocation failed: 500 - boom"
+    );
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(fs.existsSync(path.join(AUTH_DIR, "user.json"))).toBe(true);
+    expect(fs.existsSync(path.join(AUTH_DIR, "admin.json"))).toBe(false);
+  });
+});
+
+describe("Fixtures", () => {
+  const AUTH_DIR = path.join(TEST_CONFIG_DIR, "auth");
+  const createMockRequest = () => ({ dispose: vi.fn() });
+  const createPlaywright = () => ({
+    request: {
+      newContext: vi.fn().mockImplementation(async () => createMockRequest()),
+    },
+  });
+
+  beforeEach(() => {
+    fs.mkdirSync(AUTH_DIR, { recursive: true });
+    fs.writeFileSync(
+      path.join(AUTH_DIR, "user.json"),
+      JSON.stringify(supabaseStorageState("user-access", 4102444800))
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    if (fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.rmdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  it("storageState should use the authUser's file", async () => {
+    const deps = { authOutputDir: AUTH_DIR, authUser: undefined };
+
+    expect(await runFixture("storageState", deps)).toBe(
+      path.join(AUTH_DIR, "user.json")
+    );
+    expect(
+      await runFixture("storageState", { ...deps, authUser: "admin" })
+    ).toBe(path.join(AUTH_DIR, "admin.json"));
+  });
+
+  it("storageState should use authStorageStateFile for the default user", async () => {
+    const deps = {
+      authOutputDir: AUTH_DIR,
+      authStorageStateFile: "default.json",
+      authUser: undefined,
+    };
+
+    expect(await runFixture("storageState", deps)).toBe(
+      path.join(AUTH_DIR, "default.json")
+    );
+    expect(
+      await runFixture("storageState", { ...deps, authUser: "admin" })
+    ).toBe(path.join(AUTH_DIR, "admin.json"));
+  });
+
+  it("storageState should keep a storageState set in the config", async () => {
+    const loggedOut = { cookies: [], origins: [] };
+    const deps = { storageState: loggedOut, authOutputDir: AUTH_DIR };
+
+    expect(await runFixture("storageState", deps)).toBe(loggedOut);
+    expect(
+      await runFixture("storageState", { ...deps, authUser: "admin" })
+    ).toBe(path.join(AUTH_DIR, "admin.json"));
+  });
+
+  it("request should send the stored access token, with config from the environment", async () => {
+    vi.stubEnv("SUPABASE_URL", "https://test-project.supabase.co");
+    vi.stubEnv("SUPABASE_ANON_KEY", "test-anon-key");
+    vi.stubEnv("TEST_EMAIL", "test@example.com");
+    vi.stubEnv("TEST_PASSWORD", "test-password");
+    const playwright = createPlaywright();
+    const storageState = path.join(AUTH_DIR, "user.json");
+
+    const request = await runFixture<{ dispose: () => void }>("request", {
+      playwright,
+      storageState,
+      baseURL: "http://localhost:3000",
+      extraHTTPHeaders: { "X-Test": "1" },
+      ignoreHTTPSErrors: true,
+      authConfigPath: undefined,
+    });
+
+    expect(playwright.request.newContext).toHaveBeenCalledWith({
+      baseURL: "http://localhost:3000",
+      ignoreHTTPSErrors: true,
+      storageState,
+      extraHTTPHeaders: { "X-Test": "1", Authorization: "Bearer user-access" },
+    });
+    expect(request.dispose).toHaveBeenCalled();
+  });
+
+  it("request should not send a token for a logged-out storageState", async () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(validSupabaseConfig));
+    const playwright = createPlaywright();
+
+    await runFixture("request", {
+      playwright,
+      storageState: { cookies: [], origins: [] },
+      authConfigPath: TEST_CONFIG_PATH,
+    });
+
+    expect(
+      playwright.request.newContext.mock.calls[0][0].extraHTTPHeaders
+    ).toEqual({});
+  });
+
+  it("request should read a project's storageState with a roles-only config", async () => {
+    const { testUser: _testUser, ...rolesOnly } = validSupabaseConfig;
+    fs.writeFileSync(
+      TEST_CONFIG_PATH,
+      JSON.stringify({
+        ...rolesOnly,
+        testUsers: { admin: { email: "admin@example.com", password: "secret" } },
+      })
+    );
+    const adminPath = path.join(AUTH_DIR, "admin.json");
+    fs.writeFileSync(
+      adminPath,
+      JSON.stringify(supabaseStorageState("admin-access", 4102444800))
+    );
+    const playwright = createPlaywright();
+    const deps = {
+      playwright,
+      authConfigPath: TEST_CONFIG_PATH,
+      authUser: undefined,
+    };
+
+    await runFixture("request", { ...deps, storageState: adminPath });
+    await runFixture("request", {
+      ...deps,
+      storageState: { cookies: [], origins: [] },
+    });
+
+    expect(
+      playwright.request.newContext.mock.calls.map(
+        ([options]) => options.extraHTTPHeaders
+      )
+    ).toEqual([{ Authorization: "Bearer admin-access" }, {}]);
+  });
+
+  it("asUser should open a context and request for the named user", async () => {
+    const config = {
+      ...validSupabaseConfig,
+      testUsers: { admin: { email: "admin@example.com", password: "secret" } },
+    };
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(config));
+    const adminPath = path.join(AUTH_DIR, "admin.json");
+    fs.writeFileSync(
+      adminPath,
+      JSON.stringify(supabaseStorageState("admin-access", 4102444800))
+    );
+    const page = {};
+    const context = { newPage: vi.fn().mockResolvedValue(page), close: vi.fn() };
+    const browser = { newContext: vi.fn().mockResolvedValue(context) };
+    const playwright = createPlaywright();
+
+    let session: { page: unknown; request: { dispose: () => void } };
+    await runFixture<(userName: string) => Promise<typeof session>>(
+      "asUser",
+      {
+        browser,
+        playwright,
+        contextOptions: { locale: "de-DE" },
+        baseURL: "http://localhost:3000",
+        ignoreHTTPSErrors: false,
+        authConfigPath: TEST_CONFIG_PATH,
+        authOutputDir: AUTH_DIR,
+      },
+      async (asUser) => {
+        session = await asUser("admin");
+        expect(session.page).toBe(page);
+        expect(context.close).not.toHaveBeenCalled();
+      }
+    );
+
+    expect(browser.newContext).toHaveBeenCalledWith({
+      locale: "de-DE",
+      baseURL: "http://localhost:3000",
+      ignoreHTTPSErrors: false,
+      extraHTTPHeaders: undefined,
+      storageState: adminPath,
+    });
+    expect(
+      playwright.request.newContext.mock.calls[0][0].extraHTTPHeaders
+    ).toEqual({ Authorization: "Bearer admin-access" });
+    expect(session!.request.dispose).toHaveBeenCalled();
+    expect(context.close).toHaveBeenCalled();
+  });
+});
+
+describe("Worker users", () => {
+  const AUTH_DIR = path.join(TEST_CONFIG_DIR, "auth");
+  const ADMIN_URL = "https://test-project.supabase.co/auth/v1/admin";
+  const provisionConfig: PlaywrightAuthConfig = {
+    ...validSupabaseConfig,
+    supabase: {
+      ...validSupabaseConfig.supabase!,
+      serviceRoleKey: "service-role-key",
+      provision: true,
+    },
+  };
+  // Browser whose contexts save a Supabase session as the storage state
+  const createMockBrowser = () => {
+    const context = {
+      newPage: vi.fn().mockImplementation(async () => createSupabasePage()),
+      storageState: vi.fn().mockImplementation(async ({ path: statePath }) => {
+        fs.writeFileSync(
+          statePath,
+          JSON.stringify(supabaseStorageState("worker-access", 4102444800))
+        );
+      }),
+      close: vi.fn(),
+    };
+    return { newContext: vi.fn().mockResolvedValue(context) };
+  };
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    fs.mkdirSync(TEST_CONFIG_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.rmdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  it("should sign a derived user in once and delete it when the worker ends", async () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(provisionConfig));
+    mockFetch
+      .mockResolvedValueOnce(jsonResponse({ users: [] }))
+      .mockResolvedValueOnce(jsonResponse({ id: "worker-id" }))
+      .mockResolvedValueOnce(
+        jsonResponse({
+          access_token: "worker-access",
+          refresh_token: "refresh",
+          expires_in: 3600,
+          expires_at: 4102444800,
+          user: { email: "test+worker1@example.com" },
+        })
+      );
+    const browser = createMockBrowser();
+    const statePath = path.join(AUTH_DIR, "worker-1.json");
+
+    await runFixture<WorkerUser>(
+      "workerUser",
+      {
+        authConfigPath: TEST_CONFIG_PATH,
+        authOutputDir: AUTH_DIR,
+        authPerWorker: true,
+      },
+      async (workerUser) => {
+        expect(workerUser.userName).toBe("worker-1");
+        const deps = {
+          workerUser,
+          browser,
+          baseURL: "http://localhost:3000",
+          authOutputDir: AUTH_DIR,
+        };
+
+        expect(await runFixture("storageState", deps)).toBe(statePath);
+        expect(await runFixture("storageState", deps)).toBe(statePath);
+        expect(browser.newContext).toHaveBeenCalledTimes(1);
+        expect(JSON.parse(mockFetch.mock.calls[1][1].body).email).toBe(
+          "test+worker1@example.com"
+        );
+
+        mockFetch
+          .mockResolvedValueOnce(
+            jsonResponse({
+              users: [
+                {
+                  id: "worker-id",
+                  email: "test+worker1@example.com",
+                  app_metadata: { provisioned_by: "playwright-nextjs-auth" },
+                },
+              ],
+            })
+          )
+          .mockResolvedValueOnce(jsonResponse({}));
+      },
+      { parallelIndex: 1 }
+    );
+
+    // Deleting the user ends its sessions, no separate logout
+    expect(mockFetch).toHaveBeenCalledTimes(5);
+    expect(mockFetch.mock.calls[4][0]).toBe(`${ADMIN_URL}/users/worker-id`);
+    expect(mockFetch.mock.calls[4][1].method).toBe("DELETE");
+    expect(fs.existsSync(statePath)).toBe(false);
+  });
+
+  it("should delete the storage state even if cleanup fails", async () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(provisionConfig));
+    fs.mkdirSync(AUTH_DIR, { recursive: true });
+    const statePath = path.join(AUTH_DIR, "worker-0.json");
+    fs.writeFileSync(
+      statePath,
+      JSON.stringify(supabaseStorageState("worker-access", 4102444800))
+    );
+    let revoke: ReturnType<typeof vi.fn> | undefined;
+
+    await expect(
+      runFixture<WorkerUser>(
+        "workerUser",
+        {
+          authConfigPath: TEST_CONFIG_PATH,
+          authOutputDir: AUTH_DIR,
+          authPerWorker: true,
+        },
+        async (workerUser) => {
+          revoke = vi.fn().mockRejectedValue(new Error("logout failed"));
+          workerUser.provider.revoke = revoke;
+          workerUser.provider.cleanup = vi
+            .fn()
+            .mockRejectedValue(new Error("Supabase user deletion failed"));
+          // Reuses the valid saved state instead of signing in
+          await runFixture("storageState", {
+            workerUser,
+            authOutputDir: AUTH_DIR,
+          });
+        }
+      )
+    ).rejects.toThrow("Supabase user deletion failed");
+
+    expect(revoke).not.toHaveBeenCalled();
+    expect(fs.existsSync(statePath)).toBe(false);
+  });
+
+  it("should not sign in or clean up a derived user that was never used", async () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(provisionConfig));
+
+    await runFixture("workerUser", {
+      authConfigPath: TEST_CONFIG_PATH,
+      authOutputDir: AUTH_DIR,
+      authPerWorker: true,
+    });
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["Supabase without provision", validSupabaseConfig],
+    ["Firebase without provision", validFirebaseConfig],
+    [
+      "Auth0",
+      {
+        provider: "auth0",
+        testUser: { email: "test@example.com", password: "test-password" },
+        auth0: { domain: "test.auth0.com", clientId: "test-client-id" },
+      },
+    ],
+    [
+      "NextAuth credentials",
+      {
+        provider: "nextauth",
+        testUser: { email: "test@example.com", password: "test-password" },
+      },
+    ],
+  ])("should reject authPerWorker for %s", async (_name, config) => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(config));
+
+    await expect(
+      runFixture("workerUser", {
+        authConfigPath: TEST_CONFIG_PATH,
+        authOutputDir: AUTH_DIR,
+        authPerWorker: true,
+      })
+    ).rejects.toThrow(
+      `authPerWorker needs a provider that creates test users, but "${config.provider}" does not`
+    );
+  });
+
+  it("should hand out pool users and keep them when the worker ends", async () => {
+    const config = {
+      ...provisionConfig,
+      testUsers: {
+        a: { email: "a@example.com", password: "secret" },
+        b: { email: "b@example.com", password: "secret" },
+      },
+    };
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(config));
+    const deps = {
+      authConfigPath: TEST_CONFIG_PATH,
+      authOutputDir: AUTH_DIR,
+      authWorkerPool: ["a", "b"],
+    };
+
+    const workerUser = await runFixture<WorkerUser>(
+      "workerUser",
+      deps,
+      undefined,
+      { parallelIndex: 1 }
+    );
+
+    expect(workerUser.userName).toBe("b");
+    expect(workerUser.storageStatePath).toBe(path.join(AUTH_DIR, "b.json"));
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should replace a storageState set in the config", async () => {
+    const config = {
+      ...validSupabaseConfig,
+      testUsers: { a: { email: "a@example.com", password: "secret" } },
+    };
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(config));
+    fs.mkdirSync(AUTH_DIR, { recursive: true });
+    const poolPath = path.join(AUTH_DIR, "a.json");
+    fs.writeFileSync(
+      poolPath,
+      JSON.stringify(supabaseStorageState("a-access", 4102444800))
+    );
+
+    await runFixture<WorkerUser>(
+      "workerUser",
+      {
+        authConfigPath: TEST_CONFIG_PATH,
+        authOutputDir: AUTH_DIR,
+        authWorkerPool: ["a"],
+      },
+      async (workerUser) => {
+        const deps = {
+          storageState: path.join(AUTH_DIR, "user.json"),
+          workerUser,
+          browser: createMockBrowser(),
+          authOutputDir: AUTH_DIR,
+          authUser: undefined,
+        };
+
+        expect(await runFixture("storageState", deps)).toBe(poolPath);
+        expect(
+          await runFixture("storageState", { ...deps, authUser: "admin" })
+        ).toBe(path.join(AUTH_DIR, "admin.json"));
+      }
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("should fail when the pool has no user for the worker", async () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(provisionConfig));
+
+    await expect(
+      runFixture(
+        "workerUser",
+        {
+          authConfigPath: TEST_CONFIG_PATH,
+          authOutputDir: AUTH_DIR,
+          authWorkerPool: ["a", "b"],
+        },
+        undefined,
+        { parallelIndex: 2 }
+      )
+    ).rejects.toThrow("authWorkerPool has 2 user(s), but worker 2 needs one");
+  });
+});
+
+describe("refreshStorageState", () => {
+  const STATE_PATH = path.join(TEST_CONFIG_DIR, "user.json");
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    fs.mkdirSync(TEST_CONFIG_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (fs.existsSync(TEST_CONFIG_DIR)) {
+      fs.rmdirSync(TEST_CONFIG_DIR, { recursive: true });
+    }
+  });
+
+  it("should rewrite the Supabase session in localStorage", async () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(validSupabaseConfig));
+    fs.writeFileSync(
+      STATE_PATH,
+      JSON.stringify({
+        cookies: [],
+        origins: [
+          {
+            origin: "http://localhost:3000",
+            localStorage: [
+              {
+                name: "sb-test-project-auth-token",
+                value: JSON.stringify({ access_token: "old", refresh_token: "refresh" }),
+              },
+            ],
+          },
+        ],
+      })
+    );
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: vi.fn().mockResolvedValue({
+        access_token: "new-access",
+        refresh_token: "new-refresh",
+        expires_in: 3600,
+        expires_at: 1700003600,
+        user: { email: "test@example.com" },
+      }),
+    });
+
+    await refreshStorageState(STATE_PATH, { configPath: TEST_CONFIG_PATH });
+
+    const provider = SupabaseProvider.fromConfigFile(TEST_CONFIG_PATH);
+    const state = JSON.parse(fs.readFileSync(STATE_PATH, "utf-8"));
+    expect(provider.readStoredSession(state)).toEqual({
+      accessToken: "new-access",
+      refreshToken: "new-refresh",
+      expiresAt: 1700003600000,
+    });
+  });
+
+  it.each([
+    ["./playwright.env.json when it exists", true, "https://test-project.supabase.co"],
+    ["environment variables otherwise", false, "https://env-project.supabase.co"],
+  ])("should read %s by default", async (_source, hasFile, url) => {
+    vi.spyOn(process, "cwd").mockReturnValue(TEST_CONFIG_DIR);
+    vi.stubEnv("SUPABASE_URL", "https://env-project.supabase.co");
+    vi.stubEnv("SUPABASE_ANON_KEY", "test-anon-key");
+    vi.stubEnv("SUPABASE_STORAGE_KEY", "sb-test-project-auth-token");
+    vi.stubEnv("TEST_EMAIL", "test@example.com");
+    vi.stubEnv("TEST_PASSWORD", "test-password");
+    if (hasFile) {
+      fs.writeFileSync(
+        path.join(TEST_CONFIG_DIR, "playwright.env.json"),
+        JSON.stringify(validSupabaseConfig)
+      );
+    }
+    fs.writeFileSync(STATE_PATH, JSON.stringify(supabaseStorageState("old", 0)));
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: vi.fn().mockResolvedValue({
+        access_token: "new-access",
+        refresh_token: "new-refresh",
+        expires_in: 3600,
+        expires_at: 1700003600,
+        user: {},
+      }),
+    });
+
+    try {
+      await refreshStorageState(STATE_PATH);
+    } finally {
+      vi.restoreAllMocks();
+      vi.unstubAllEnvs();
+    }
+
+    expect(mockFetch.mock.calls[0][0]).toBe(
+      `${url}/auth/v1/token?grant_type=refresh_token`
+    );
+  });
+
+  it("should rewrite the Firebase user entry via the Secure Token API", async () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(validFirebaseConfig));
+    fs.writeFileSync(
+      STATE_PATH,
+      JSON.stringify({
+        cookies: [],
+        origins: [
+          {
+            origin: "http://localhost:3000",
+            localStorage: [],
+            indexedDB: [
+              {
+                name: "firebaseLocalStorageDb",
+                version: 1,
+                stores: [
+                  {
+                    name: "firebaseLocalStorage",
+                    autoIncrement: false,
+                    keyPath: "fbase_key",
+                    indexes: [],
+                    records: [
+                      {
+                        value: {
+                          fbase_key: "firebase:authUser:test-api-key:[DEFAULT]",
+                          value: {
+                            stsTokenManager: {
+                              accessToken: "old",
+                              refreshToken: "refresh",
+                              expirationTime: 0,
+                            },
+                          },
+                        },
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      })
+    );
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: vi.fn().mockResolvedValue({
+        id_token: "new-id-token",
+        refresh_token: "new-refresh",
+        expires_in: "3600",
+      }),
+    });
+
+    await refreshStorageState(STATE_PATH, { configPath: TEST_CONFIG_PATH });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      "https://securetoken.googleapis.com/v1/token?key=test-api-key",
+      expect.objectContaining({ method: "POST" })
+    );
+    const provider = FirebaseProvider.fromConfigFile(TEST_CONFIG_PATH);
+    const session = provider.readStoredSession(
+      JSON.parse(fs.readFileSync(STATE_PATH, "utf-8"))
+    );
+    expect(session?.accessToken).toBe("new-id-token");
+    expect(session?.refreshToken).toBe("new-refresh");
+    expect(session?.expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it("should throw error when no refresh token is stored", async () => {
+    fs.writeFileSync(TEST_CONFIG_PATH, JSON.stringify(validSupabaseConfig));
+    fs.writeFileSync(STATE_PATH, JSON.stringify({ cookies: [], origins: [] }));
+
+    await expect(
+      refreshStorageState(STATE_PATH, { configPath: TEST_CONFIG_PATH })
+    ).rejects.toThrow("No Supabase refresh token found in storage state");
+  });
+});